@@ -1,26 +1,56 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { EventDiagnostics } from "@/components/EventDiagnostics";
+import { CommandPalette } from "@/components/CommandPalette";
+import { ThemeProvider } from "next-themes";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
+import Agenda from "./pages/Agenda";
+import Overview from "./pages/Overview";
+import Stats from "./pages/Stats";
+import Habits from "./pages/Habits";
+import Week from "./pages/Week";
+import Day from "./pages/Day";
 import NotFound from "./pages/NotFound";
+import { eventsQueryOptions } from "./hooks/use-events";
+import { checklistsQueryOptions } from "./hooks/use-checklists";
+import { getDefaultYear } from "./data/years";
+import { yearPath } from "./lib/routes";
 
 const queryClient = new QueryClient();
 
+// Start reading persisted events and checklist progress before the first render
+queryClient.prefetchQuery(eventsQueryOptions);
+queryClient.prefetchQuery(checklistsQueryOptions);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <EventDiagnostics />
+        <BrowserRouter>
+          <CommandPalette />
+          <Routes>
+            <Route path="/" element={<Navigate to={yearPath(getDefaultYear())} replace />} />
+            <Route path="/:year" element={<Index />} />
+            <Route path="/:year/agenda" element={<Agenda />} />
+            <Route path="/:year/overview" element={<Overview />} />
+            <Route path="/:year/stats" element={<Stats />} />
+            <Route path="/:year/habits" element={<Habits />} />
+            <Route path="/:year/:month" element={<Index />} />
+            <Route path="/week/:date" element={<Week />} />
+            <Route path="/day/:date" element={<Day />} />
+            <Route path="/event/:id" element={<Index />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </ThemeProvider>
   </QueryClientProvider>
 );
 
@@ -1,6 +1,19 @@
+import { Link } from "react-router-dom";
+import { BarChart3, ChevronLeft, ChevronRight, Download, Flame, LayoutGrid, List } from "lucide-react";
+import { EventFilter } from "@/data/categories";
+import { FilterBar } from "@/components/FilterBar";
+import { ThemeSwitcher } from "@/components/ThemeSwitcher";
+import { agendaPath, filterSearch, habitsPath, overviewPath, statsPath, yearPath } from "@/lib/routes";
+
 interface CalendarHeaderProps {
+  year: number;
+  title: string; // the year's theme, e.g. "The Year of the Hybrid Athlete"
   currentMonth: number;
   onManifestationClick: () => void;
+  onExportClick: () => void;
+  filter: EventFilter | null;
+  filterTags: { id: string; label: string; color?: string }[];
+  onFilterChange: (filter: EventFilter | null) => void;
 }
 
 const MONTH_NAMES = [
@@ -8,7 +21,16 @@ const MONTH_NAMES = [
   'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
 ];
 
-export function CalendarHeader({ currentMonth, onManifestationClick }: CalendarHeaderProps) {
+export function CalendarHeader({
+  year,
+  title,
+  currentMonth,
+  onManifestationClick,
+  onExportClick,
+  filter,
+  filterTags,
+  onFilterChange,
+}: CalendarHeaderProps) {
   const scrollToMonth = (month: number) => {
     const element = document.getElementById(`month-${month}`);
     if (element) {
@@ -19,20 +41,91 @@ export function CalendarHeader({ currentMonth, onManifestationClick }: CalendarH
   return (
     <header className="fixed top-0 left-0 right-0 z-40 bg-background/80 backdrop-blur-md border-b border-border">
       <div className="max-w-6xl mx-auto px-4 py-3 md:py-4">
-        {/* Top row: Title + Manifestation button */}
+        {/* Top row: Export + view links + Title + theme + Habits + Manifestation button */}
         <div className="flex items-center justify-between mb-3">
-          <div className="w-24 md:w-32" /> {/* Spacer for balance */}
-          <h1 className="text-lg md:text-2xl font-serif font-bold text-foreground text-center">
-            2026: The Year of the Hybrid Athlete
-          </h1>
-          <button
-            onClick={onManifestationClick}
-            className="w-24 md:w-32 px-3 py-1.5 rounded-md text-xs md:text-sm font-medium
-              text-muted-foreground hover:text-foreground hover:bg-muted/50
-              transition-all duration-200 text-right"
-          >
-            Manifestation
-          </button>
+          <div className="w-24 md:w-40 xl:w-80 flex items-center">
+            <button
+              onClick={onExportClick}
+              title="Export the year as an .ics calendar file"
+              className="px-2 md:px-3 py-1.5 rounded-md text-xs md:text-sm font-medium
+                text-muted-foreground hover:text-foreground hover:bg-muted/50
+                transition-all duration-200 flex items-center gap-1.5"
+            >
+              <Download className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Export</span>
+            </button>
+            <Link
+              to={agendaPath(year)}
+              title="Agenda view"
+              className="px-2 md:px-3 py-1.5 rounded-md text-xs md:text-sm font-medium
+                text-muted-foreground hover:text-foreground hover:bg-muted/50
+                transition-all duration-200 flex items-center gap-1.5"
+            >
+              <List className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Agenda</span>
+            </Link>
+            <Link
+              to={overviewPath(year)}
+              title="Year overview"
+              className="px-2 md:px-3 py-1.5 rounded-md text-xs md:text-sm font-medium
+                text-muted-foreground hover:text-foreground hover:bg-muted/50
+                transition-all duration-200 flex items-center gap-1.5"
+            >
+              <LayoutGrid className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Overview</span>
+            </Link>
+            <Link
+              to={statsPath(year)}
+              title="Training stats"
+              className="px-2 md:px-3 py-1.5 rounded-md text-xs md:text-sm font-medium
+                text-muted-foreground hover:text-foreground hover:bg-muted/50
+                transition-all duration-200 flex items-center gap-1.5"
+            >
+              <BarChart3 className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Stats</span>
+            </Link>
+          </div>
+          {/* Year switcher around the title */}
+          <div className="flex items-center gap-1 md:gap-2 min-w-0">
+            <Link
+              to={`${yearPath(year - 1)}${filterSearch(filter)}`}
+              className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors flex-shrink-0"
+              aria-label={`Go to ${year - 1}`}
+            >
+              <ChevronLeft className="w-4 h-4 md:w-5 md:h-5" />
+            </Link>
+            <h1 className="text-lg md:text-2xl font-serif font-bold text-foreground text-center">
+              {year}: {title}
+            </h1>
+            <Link
+              to={`${yearPath(year + 1)}${filterSearch(filter)}`}
+              className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors flex-shrink-0"
+              aria-label={`Go to ${year + 1}`}
+            >
+              <ChevronRight className="w-4 h-4 md:w-5 md:h-5" />
+            </Link>
+          </div>
+          <div className="w-24 md:w-40 xl:w-80 flex items-center justify-end">
+            <ThemeSwitcher />
+            <Link
+              to={habitsPath(year)}
+              title="Daily habits"
+              className="px-2 md:px-3 py-1.5 rounded-md text-xs md:text-sm font-medium
+                text-muted-foreground hover:text-foreground hover:bg-muted/50
+                transition-all duration-200 flex items-center gap-1.5"
+            >
+              <Flame className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Habits</span>
+            </Link>
+            <button
+              onClick={onManifestationClick}
+              className="px-2 md:px-3 py-1.5 rounded-md text-xs md:text-sm font-medium
+                text-muted-foreground hover:text-foreground hover:bg-muted/50
+                transition-all duration-200 text-right truncate"
+            >
+              Manifestation
+            </button>
+          </div>
         </div>
         
         {/* Month Navigation */}
@@ -54,6 +147,11 @@ export function CalendarHeader({ currentMonth, onManifestationClick }: CalendarH
             </button>
           ))}
         </nav>
+
+        {/* Tag filter */}
+        <div className="flex justify-center mt-2">
+          <FilterBar filter={filter} tags={filterTags} onChange={onFilterChange} />
+        </div>
       </div>
     </header>
   );
@@ -1,4 +1,36 @@
-import { CalendarEvent, getEventsForDate, formatDateString, events as allEvents } from "@/data/events";
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { getWeek, startOfWeek } from "date-fns";
+import { CalendarEvent, formatDateString } from "@/data/events";
+import { groupWorkoutsByDate } from "@/data/workouts";
+import { EventFilter } from "@/data/categories";
+import { useEvents } from "@/hooks/use-events";
+import { useChecklists } from "@/hooks/use-checklists";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useWorkouts } from "@/hooks/use-workouts";
+import { useGoalEntries } from "@/hooks/use-goal-entries";
+import { useHabitMutations, useHabits } from "@/hooks/use-habits";
+import { getChecklistProgress } from "@/lib/checklist";
+import { describeGoalProgress, getGoalProgress } from "@/lib/goalProgress";
+import { formatGoal } from "@/data/goals";
+import {
+  CELL_SLOTS,
+  MAX_BAR_ROWS,
+  fitDayEvents,
+  getEventBlocksForWeek,
+  getMonthWeeks,
+  getSingleDayEventsForDate,
+  getWeekdayLabels,
+  isBarBlock,
+  limitBarRows,
+} from "@/lib/monthLayout";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import { dayPath, weekPath } from "@/lib/routes";
+import { formatEventTime } from "@/lib/time";
+import { DayEventsPopover } from "@/components/DayEventsPopover";
+import { Progress } from "@/components/ui/progress";
+import { WorkoutIndicator } from "@/components/WorkoutIndicator";
+import { HabitDots } from "@/components/HabitDots";
 import {
   Tooltip,
   TooltipContent,
@@ -9,169 +41,36 @@ import {
 interface CalendarMonthProps {
   year: number;
   month: number; // 0-indexed (0 = January)
+  weekStartsOn: 0 | 1; // 0 = Sunday, 1 = Monday
+  mantra?: string; // the quarter's mantra from the year's config
+  filter?: EventFilter | null; // tag filter from the URL; hidden events are left out of bars and tiles
   onEventClick: (event: CalendarEvent) => void;
+  onDayClick: (date: Date) => void;
+  onLogClick: (date: Date) => void; // open the day's training log
 }
 
-// Week starts on Monday (ISO-8601)
-const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 const MONTH_NAMES = [
   'January', 'February', 'March', 'April', 'May', 'June',
   'July', 'August', 'September', 'October', 'November', 'December'
 ];
 
-interface EventBlock {
-  event: CalendarEvent;
-  startCol: number; // 0-6 column position in this week
-  endCol: number; // 0-6 column position in this week
-  row: number; // row index within the week (for stacking)
-  isStart: boolean; // true if this is where the event actually starts
-  isEnd: boolean; // true if this is where the event actually ends
-}
-
-/**
- * Calculate event blocks for a given week
- * Handles events that span across weeks by creating continuation blocks
- */
-function getEventBlocksForWeek(
-  weekDays: (number | null)[],
-  year: number,
-  month: number
-): EventBlock[] {
-  const blocks: EventBlock[] = [];
-  const processedEvents = new Set<string>();
-
-  // Get the date range of this week
-  const weekDates: Date[] = [];
-  weekDays.forEach((day, i) => {
-    if (day !== null) {
-      weekDates[i] = new Date(year, month, day);
-    }
-  });
-
-  // Find first and last valid day indices in week
-  let firstValidIdx = weekDays.findIndex(d => d !== null);
-  let lastValidIdx = weekDays.length - 1;
-  while (lastValidIdx >= 0 && weekDays[lastValidIdx] === null) {
-    lastValidIdx--;
-  }
-
-  if (firstValidIdx === -1) return blocks;
-
-  // For each day in the week, check for events
-  weekDays.forEach((day, colIndex) => {
-    if (day === null) return;
-
-    const date = new Date(year, month, day);
-    const dayEvents = getEventsForDate(date);
-
-    dayEvents.forEach(event => {
-      // Create unique key for this event in this week
-      const weekKey = `${event.id}-week-${weekDays[firstValidIdx]}`;
-      if (processedEvents.has(weekKey)) return;
-      processedEvents.add(weekKey);
-
-      const eventStart = new Date(event.start);
-      const eventEnd = new Date(event.end);
+export function CalendarMonth({ year, month, weekStartsOn, mantra, filter, onEventClick, onDayClick, onLogClick }: CalendarMonthProps) {
+  // Re-render whenever events are created, edited or deleted
+  useEvents();
+  const checklists = useChecklists();
+  const eventColors = useEventColors();
+  const goalEntries = useGoalEntries();
+  const workouts = useWorkouts();
+  const workoutsByDate = useMemo(() => groupWorkoutsByDate(workouts), [workouts]);
+  const habits = useHabits();
+  const { toggleCheckIn } = useHabitMutations();
 
-      // Find where this event starts and ends within this week
-      let startCol = -1;
-      let endCol = -1;
-      let isStart = false;
-      let isEnd = false;
-
-      for (let i = 0; i < 7; i++) {
-        if (weekDays[i] === null) continue;
-        const cellDate = new Date(year, month, weekDays[i]!);
-        const cellDateStr = formatDateString(cellDate);
-        const eventStartStr = event.start;
-        const eventEndStr = event.end;
-
-        // Check if this cell is within the event range
-        if (cellDateStr >= eventStartStr && cellDateStr <= eventEndStr) {
-          if (startCol === -1) {
-            startCol = i;
-            isStart = cellDateStr === eventStartStr;
-          }
-          endCol = i;
-          isEnd = cellDateStr === eventEndStr;
-        }
-      }
-
-      if (startCol === -1) return; // Event not in this week
-
-      // Assign row (stack events vertically if they overlap)
-      let row = 0;
-      const usedRows = blocks
-        .filter(b => {
-          // Check for column overlap
-          return !(b.endCol < startCol || b.startCol > endCol);
-        })
-        .map(b => b.row);
-
-      while (usedRows.includes(row)) {
-        row++;
-      }
-
-      blocks.push({
-        event,
-        startCol,
-        endCol,
-        row,
-        isStart,
-        isEnd
-      });
-    });
-  });
-
-  // Sort blocks by row for consistent rendering
-  blocks.sort((a, b) => a.row - b.row);
-
-  return blocks;
-}
-
-/**
- * Get single-day events for a specific day
- */
-function getSingleDayEventsForDate(date: Date): CalendarEvent[] {
-  return getEventsForDate(date).filter(event => event.start === event.end);
-}
-
-export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps) {
-  // Get first day of month and total days
-  const firstDay = new Date(year, month, 1);
-  const lastDay = new Date(year, month + 1, 0);
-  const daysInMonth = lastDay.getDate();
-
-  // Calculate starting day offset for Monday-based week
-  const dayOfWeek = firstDay.getDay();
-  const startingDayOfWeek = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-
-  // Create array of day cells
-  const days: (number | null)[] = [];
-
-  // Add empty cells for days before the first of the month
-  for (let i = 0; i < startingDayOfWeek; i++) {
-    days.push(null);
-  }
-
-  // Add day numbers
-  for (let day = 1; day <= daysInMonth; day++) {
-    days.push(day);
-  }
-
-  // Fill remaining cells to complete the grid
-  while (days.length % 7 !== 0) {
-    days.push(null);
-  }
-
-  // Group days into weeks
-  const weeks: (number | null)[][] = [];
-  for (let i = 0; i < days.length; i += 7) {
-    weeks.push(days.slice(i, i + 7));
-  }
+  const weekdayLabels = getWeekdayLabels(weekStartsOn);
+  const weeks = getMonthWeeks(year, month, weekStartsOn);
 
   // Check if a date is today
   const today = new Date();
+  const todayStr = formatDateString(today);
   const isToday = (day: number) =>
     today.getFullYear() === year &&
     today.getMonth() === month &&
@@ -194,13 +93,18 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
         <p className="text-muted-foreground/60 text-xs md:text-sm mt-1 font-mono tracking-wider">
           {year}
         </p>
+        {mantra && (
+          <p className="text-muted-foreground text-xs md:text-sm mt-2 italic font-serif">
+            {mantra}
+          </p>
+        )}
       </header>
 
       {/* Calendar Grid */}
       <div className="w-full max-w-4xl">
         {/* Weekday Headers */}
         <div className="grid grid-cols-7 mb-2 md:mb-3">
-          {WEEKDAYS.map(day => (
+          {weekdayLabels.map(day => (
             <div
               key={day}
               className="text-center text-[10px] md:text-xs font-medium text-muted-foreground/70 py-1.5 uppercase tracking-wide"
@@ -214,10 +118,11 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
         <TooltipProvider delayDuration={300}>
           <div className="space-y-1">
             {weeks.map((week, weekIndex) => {
-              const eventBlocks = getEventBlocksForWeek(week, year, month);
+              const eventBlocks = getEventBlocksForWeek(week, year, month, filter);
 
-              // Get multi-day events (for overlay rendering)
-              const multiDayBlocks = eventBlocks.filter(b => b.startCol !== b.endCol || !b.isStart || !b.isEnd);
+              // Get multi-day events (for overlay rendering), up to the row budget;
+              // the rest are counted into each day's "+N more"
+              const { visible: multiDayBlocks, hiddenPerCol } = limitBarRows(eventBlocks.filter(isBarBlock), MAX_BAR_ROWS);
 
               // Calculate max row for proper spacing
               const maxRow = multiDayBlocks.length > 0
@@ -227,8 +132,19 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
               // Calculate overlay height needed
               const overlayHeight = maxRow >= 0 ? (maxRow + 1) * (EVENT_BAR_HEIGHT + EVENT_BAR_GAP) : 0;
 
+              // Week link in the left margin (opens the week view)
+              const firstDay = new Date(year, month, week.find(d => d !== null)!);
+              const weekNumber = getWeek(firstDay, { weekStartsOn, firstWeekContainsDate: 4 });
+
               return (
                 <div key={weekIndex} className="relative">
+                  <Link
+                    to={weekPath(startOfWeek(firstDay, { weekStartsOn }))}
+                    className="hidden lg:block absolute -left-10 top-1.5 w-8 text-right text-[10px] font-mono text-muted-foreground/50 hover:text-primary transition-colors"
+                    title={`Week ${weekNumber}`}
+                  >
+                    W{weekNumber}
+                  </Link>
                   {/* Multi-day event overlay layer */}
                   {multiDayBlocks.length > 0 && (
                     <div
@@ -248,14 +164,23 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
                         const hasLeftFade = !block.isStart;
                         const hasRightFade = !block.isEnd;
 
+                        // Label the first segment in this month too, so events
+                        // carried over from the previous month (or year) are named
+                        const showTitle = block.isStart || week[block.startCol] === 1;
+                        const progress = showTitle ? getChecklistProgress(block.event, checklists) : null;
+                        const colors = eventColors(block.event.color);
+                        // The first goal's current period, as a line along the bottom
+                        const goal = block.event.goals?.[0];
+                        const goalProgress = goal ? getGoalProgress(goal, block.event, goalEntries, weekStartsOn) : null;
+
                         return (
-                          <Tooltip key={`${block.event.id}-${blockIndex}`}>
+                          <Tooltip key={`${getOccurrenceKey(block.event)}-${blockIndex}`}>
                             <TooltipTrigger asChild>
                               <button
                                 onClick={() => onEventClick(block.event)}
                                 className="absolute pointer-events-auto flex items-center px-1.5 md:px-2 text-[8px] md:text-[10px] font-medium leading-tight transition-all duration-150 hover:brightness-110 cursor-pointer"
                                 style={{
-                                  backgroundColor: `hsl(${block.event.color} / 0.75)`,
+                                  backgroundColor: colors.bar,
                                   color: 'white',
                                   textShadow: '0 1px 1px rgba(0,0,0,0.2)',
                                   left: `calc(${leftPercent}% + 2px)`,
@@ -271,15 +196,31 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
                                     : '0',
                                   // Subtle gradient for continuation cues
                                   background: hasLeftFade || hasRightFade
-                                    ? `linear-gradient(to right, ${hasLeftFade ? `hsl(${block.event.color} / 0.55)` : `hsl(${block.event.color} / 0.75)`} 0%, hsl(${block.event.color} / 0.75) ${hasLeftFade ? '8%' : '0%'}, hsl(${block.event.color} / 0.75) ${hasRightFade ? '92%' : '100%'}, ${hasRightFade ? `hsl(${block.event.color} / 0.55)` : `hsl(${block.event.color} / 0.75)`} 100%)`
-                                    : `hsl(${block.event.color} / 0.75)`
+                                    ? `linear-gradient(to right, ${hasLeftFade ? colors.barFaded : colors.bar} 0%, ${colors.bar} ${hasLeftFade ? '8%' : '0%'}, ${colors.bar} ${hasRightFade ? '92%' : '100%'}, ${hasRightFade ? colors.barFaded : colors.bar} 100%)`
+                                    : colors.bar
                                 }}
                               >
-                                {block.isStart && (
+                                {showTitle && (
                                   <span className="truncate whitespace-nowrap overflow-hidden">
                                     {block.event.title}
                                   </span>
                                 )}
+                                {/* Checklist completion badge */}
+                                {progress && (
+                                  <span
+                                    className="ml-auto pl-1 flex-shrink-0 font-mono text-[7px] md:text-[9px] opacity-90"
+                                    aria-label={`${progress.done} of ${progress.total} tasks done`}
+                                  >
+                                    {progress.done}/{progress.total}
+                                  </span>
+                                )}
+                                {goalProgress && (
+                                  <Progress
+                                    value={goalProgress.percent}
+                                    className="absolute left-0 right-0 bottom-0 h-[2px] rounded-none bg-white/25"
+                                    indicatorClassName="bg-white/90"
+                                  />
+                                )}
                               </button>
                             </TooltipTrigger>
                             <TooltipContent
@@ -287,6 +228,11 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
                               className="bg-popover text-popover-foreground border border-border text-xs"
                             >
                               {block.event.title}
+                              {goalProgress && (
+                                <span className="block text-muted-foreground">
+                                  {formatGoal(goalProgress.goal)}: {describeGoalProgress(goalProgress)}
+                                </span>
+                              )}
                             </TooltipContent>
                           </Tooltip>
                         );
@@ -306,9 +252,15 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
                         );
                       }
 
-                      // Get single-day events for this cell
+                      // Get single-day events for this cell, as many as fit under the bars
                       const date = new Date(year, month, day);
-                      const singleDayEvents = getSingleDayEventsForDate(date);
+                      const dateStr = formatDateString(date);
+                      const planned = getSingleDayEventsForDate(date, filter);
+                      const { visible: singleDayEvents, hiddenCount } = fitDayEvents(
+                        planned,
+                        hiddenPerCol[dayIndex],
+                        CELL_SLOTS - (maxRow + 1)
+                      );
 
                       // Calculate padding needed for multi-day event overlay
                       const paddingTop = multiDayBlocks.length > 0 ? overlayHeight + 4 : 0;
@@ -316,20 +268,39 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
                       return (
                         <div
                           key={`day-${day}`}
+                          onClick={() => onDayClick(date)}
+                          title="Add event"
                           className={`
-                            aspect-[4/3] md:aspect-[3/2] rounded-md bg-card border border-border/40
-                            flex flex-col relative overflow-hidden
+                            group aspect-[4/3] md:aspect-[3/2] rounded-md bg-card border border-border/40
+                            flex flex-col relative overflow-hidden cursor-pointer
+                            transition-colors duration-150 hover:border-primary/40
                             ${isToday(day) ? 'ring-1 ring-primary/70 ring-offset-1 ring-offset-background' : ''}
                           `}
                         >
-                          {/* Date number - top left header area */}
-                          <div className="flex-shrink-0 px-1.5 pt-1 md:px-2 md:pt-1.5">
-                            <span className={`
-                              text-[10px] md:text-xs leading-none
-                              ${isToday(day) ? 'text-primary font-semibold' : 'text-foreground/50 font-medium'}
-                            `}>
-                              {day}
-                            </span>
+                          {/* Date number and habit dots - top left header area, training log - top right */}
+                          <div className="flex-shrink-0 flex items-start justify-between gap-1 px-1.5 pt-1 md:px-2 md:pt-1.5">
+                            <div className="flex items-center gap-1 min-w-0">
+                              <Link
+                                to={dayPath(date)}
+                                onClick={(e) => e.stopPropagation()}
+                                title="Open day"
+                                className={`
+                                  text-[10px] md:text-xs leading-none hover:text-primary hover:underline
+                                  ${isToday(day) ? 'text-primary font-semibold' : 'text-foreground/50 font-medium'}
+                                `}
+                              >
+                                {day}
+                              </Link>
+                              {/* Habits can be checked in up to today */}
+                              {dateStr <= todayStr && (
+                                <HabitDots habits={habits} date={dateStr} onToggle={toggleCheckIn} />
+                              )}
+                            </div>
+                            <WorkoutIndicator
+                              logged={workoutsByDate.get(dateStr)?.length ?? 0}
+                              planned={planned.length}
+                              onClick={() => onLogClick(date)}
+                            />
                           </div>
 
                           {/* Single-day event tiles area */}
@@ -340,35 +311,47 @@ export function CalendarMonth({ year, month, onEventClick }: CalendarMonthProps)
                             <div className="flex flex-col gap-0.5 max-h-full overflow-hidden">
                               {singleDayEvents.map((event, eventIndex) => {
                                 const isLongTitle = event.title.length > 10;
+                                const time = formatEventTime(event);
+                                const colors = eventColors(event.color);
 
                                 return (
-                                  <Tooltip key={`${event.id}-${eventIndex}`}>
+                                  <Tooltip key={`${getOccurrenceKey(event)}-${eventIndex}`}>
                                     <TooltipTrigger asChild>
                                       <button
-                                        onClick={() => onEventClick(event)}
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          onEventClick(event);
+                                        }}
                                         className="h-3 md:h-3.5 flex items-center justify-center px-1 text-[7px] md:text-[8px] font-medium leading-none transition-all duration-150 hover:brightness-110 cursor-pointer rounded-sm"
                                         style={{
-                                          backgroundColor: `hsl(${event.color} / 0.15)`,
-                                          color: `hsl(${event.color})`,
-                                          border: `1px solid hsl(${event.color} / 0.3)`,
+                                          backgroundColor: colors.tint,
+                                          color: colors.text,
+                                          border: `1px solid ${colors.border}`,
                                         }}
                                       >
+                                        {event.startTime && (
+                                          <span className="flex-shrink-0 mr-0.5 font-mono opacity-75">{event.startTime}</span>
+                                        )}
                                         <span className="truncate whitespace-nowrap overflow-hidden">
                                           {event.title}
                                         </span>
                                       </button>
                                     </TooltipTrigger>
-                                    {isLongTitle && (
+                                    {(isLongTitle || time) && (
                                       <TooltipContent
                                         side="top"
                                         className="bg-popover text-popover-foreground border border-border text-xs"
                                       >
+                                        {time && <span className="font-mono text-muted-foreground mr-1.5">{time}</span>}
                                         {event.title}
                                       </TooltipContent>
                                     )}
                                   </Tooltip>
                                 );
                               })}
+                              {hiddenCount > 0 && (
+                                <DayEventsPopover date={date} filter={filter} hiddenCount={hiddenCount} onEventClick={onEventClick} />
+                              )}
                             </div>
                           </div>
                         </div>
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useTheme } from "next-themes";
+import { format } from "date-fns";
+import { CalendarDays, Moon, Sun } from "lucide-react";
+import { CalendarEvent, isMultiDayEvent, parseDateString } from "@/data/events";
+import { getDefaultYear } from "@/data/years";
+import { useEvents } from "@/hooks/use-events";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { CommandAction, useRegisteredCommandActions } from "@/hooks/use-command-actions";
+import { fuzzyScore, searchEvents } from "@/lib/search";
+import { EventLinkState, eventPath, getPathYear, monthPath } from "@/lib/routes";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// "go to oct", "go oct" or just "oct"
+const GO_TO_PREFIX = /^\s*go(\s+to)?\s+/i;
+
+/**
+ * HELPER: "Oct 17, 2026" or "Mar 2 – Mar 8, 2026"
+ */
+function formatResultDates(event: CalendarEvent): string {
+  const start = parseDateString(event.start);
+  if (!isMultiDayEvent(event)) return format(start, 'MMM d, yyyy');
+  return `${format(start, 'MMM d')} – ${format(parseDateString(event.end), 'MMM d, yyyy')}`;
+}
+
+/**
+ * Cmd/Ctrl+K palette: searches event titles and details, jumps to a
+ * month of the year in view, and runs actions, both global ones (theme)
+ * and those the current view registers with useCommandActions.
+ *
+ * Mounted once inside the router, so it works on every page.
+ */
+export function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { resolvedTheme, setTheme } = useTheme();
+  const { events } = useEvents();
+  const eventColors = useEventColors();
+  const viewActions = useRegisteredCommandActions();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(isOpen => !isOpen);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Months are those of the year being looked at
+  const year = getPathYear(location.pathname)
+    ?? (location.state as EventLinkState | null)?.year
+    ?? getDefaultYear();
+
+  const isDark = resolvedTheme === 'dark';
+  const actions: CommandAction[] = [
+    ...viewActions,
+    {
+      id: 'toggle-theme',
+      label: isDark ? 'Switch to light theme' : 'Switch to dark theme',
+      icon: isDark ? Sun : Moon,
+      keywords: ['toggle theme', 'dark', 'light', 'mode'],
+      run: () => setTheme(isDark ? 'light' : 'dark'),
+    },
+  ];
+
+  const monthQuery = query.replace(GO_TO_PREFIX, '').trim().toLowerCase();
+  const trimmed = query.trim();
+  const eventResults = searchEvents(events, trimmed);
+  const monthResults = MONTH_NAMES
+    .map((name, month) => ({ name, month }))
+    .filter(({ name }) => !monthQuery || name.toLowerCase().startsWith(monthQuery));
+  const actionResults = actions.filter(action =>
+    !trimmed || fuzzyScore(trimmed, [action.label, ...(action.keywords ?? [])].join(' ')) !== null
+  );
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setQuery('');
+  };
+
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  const openEvent = (event: CalendarEvent) => {
+    const state: EventLinkState = { year: parseDateString(event.start).getFullYear() };
+    navigate(eventPath(event), { state });
+  };
+
+  // Already on the year's calendar: scroll there, like the month nav does
+  const goToMonth = (month: number) => {
+    const element = document.getElementById(`month-${month}`);
+    if (element && getPathYear(location.pathname) === year) {
+      element.scrollIntoView({ behavior: 'smooth' });
+    } else {
+      navigate(monthPath(year, month));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search events and commands</DialogTitle>
+        {/* Results are ranked here, not by cmdk, so details matches can show a snippet */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12"
+        >
+          <CommandInput placeholder="Search events, go to a month…" value={query} onValueChange={setQuery} />
+          <CommandList className="max-h-[60vh]">
+            <CommandEmpty>Nothing matches "{trimmed}".</CommandEmpty>
+
+            {eventResults.length > 0 && (
+              <CommandGroup heading="Events">
+                {eventResults.map(({ event, snippet }) => (
+                  <CommandItem key={event.id} value={`event-${event.id}`} onSelect={() => run(() => openEvent(event))} className="gap-2">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: eventColors(event.color).solid }} />
+                    <span className="flex-1 min-w-0">
+                      <span className="flex items-baseline gap-2">
+                        <span className="truncate">{event.title}</span>
+                        <span className="ml-auto flex-shrink-0 text-[11px] font-mono text-muted-foreground">
+                          {formatResultDates(event)}
+                        </span>
+                      </span>
+                      {snippet && <span className="block truncate text-xs text-muted-foreground">{snippet}</span>}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {monthResults.length > 0 && (
+              <CommandGroup heading={`Go to (${year})`}>
+                {monthResults.map(({ name, month }) => (
+                  <CommandItem key={name} value={`month-${month}`} onSelect={() => run(() => goToMonth(month))} className="gap-2">
+                    <CalendarDays className="w-4 h-4 text-muted-foreground" />
+                    {name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {actionResults.length > 0 && (
+              <CommandGroup heading="Actions">
+                {actionResults.map(action => {
+                  const Icon = action.icon;
+                  return (
+                    <CommandItem key={action.id} value={`action-${action.id}`} onSelect={() => run(action.run)} className="gap-2">
+                      {Icon && <Icon className="w-4 h-4 text-muted-foreground" />}
+                      {action.label}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
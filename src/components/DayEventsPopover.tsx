@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { CalendarEvent, compareEventTimes, isMultiDayEvent } from "@/data/events";
+import { EventFilter } from "@/data/categories";
+import { getEventsForDate } from "@/data/eventStore";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { getPhaseDay } from "@/lib/agenda";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import { dayPath } from "@/lib/routes";
+import { formatEventTime } from "@/lib/time";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface DayEventsPopoverProps {
+  date: Date;
+  filter?: EventFilter | null; // the month's tag filter, so the list matches the cell
+  hiddenCount: number; // events on this date that the cell couldn't show
+  onEventClick: (event: CalendarEvent) => void;
+}
+
+/**
+ * "+N more" line for a month cell that is out of room.
+ * Opens a popover listing every event on the date: phases first, then
+ * the day's own events by time.
+ */
+export function DayEventsPopover({ date, filter, hiddenCount, onEventClick }: DayEventsPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const eventColors = useEventColors();
+
+  const events = open
+    ? [...getEventsForDate(date, filter)].sort((a, b) =>
+        Number(!isMultiDayEvent(a)) - Number(!isMultiDayEvent(b))
+        || a.start.localeCompare(b.start)
+        || compareEventTimes(a, b))
+    : [];
+
+  const handleEventClick = (event: CalendarEvent) => {
+    setOpen(false);
+    onEventClick(event);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          // The cell itself opens the new-event editor
+          onClick={(e) => e.stopPropagation()}
+          className="h-3 md:h-3.5 flex-shrink-0 px-1 rounded-sm text-[7px] md:text-[8px] font-medium leading-none text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+          aria-label={`${hiddenCount} more event${hiddenCount === 1 ? '' : 's'} on ${format(date, 'MMMM d')}`}
+        >
+          +{hiddenCount} more
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-64 p-2"
+        // Portaled, but React still bubbles clicks up to the cell
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-baseline justify-between gap-2 px-1 pb-1.5 mb-1 border-b border-border/50">
+          <span className="text-xs font-semibold text-foreground">{format(date, 'EEEE, MMM d')}</span>
+          <Link to={dayPath(date)} className="text-[10px] text-muted-foreground hover:text-primary transition-colors">
+            Open day
+          </Link>
+        </div>
+        <ul className="space-y-0.5 max-h-64 overflow-y-auto">
+          {events.map(event => {
+            const phase = isMultiDayEvent(event) ? getPhaseDay(event, date) : null;
+
+            return (
+              <li key={getOccurrenceKey(event)}>
+                <button
+                  onClick={() => handleEventClick(event)}
+                  className="w-full flex items-center gap-2 rounded px-1 py-1 text-left text-xs hover:bg-muted/50 transition-colors"
+                >
+                  <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: eventColors(event.color).solid }} />
+                  <span className="flex-1 min-w-0 truncate text-foreground">{event.title}</span>
+                  <span className="flex-shrink-0 text-[10px] font-mono text-muted-foreground">
+                    {phase ? `${phase.day}/${phase.total}` : formatEventTime(event)}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { EventProblem } from "@/data/eventSchema";
+import { useEvents } from "@/hooks/use-events";
+
+const DIAGNOSTICS_TOAST_ID = 'event-diagnostics';
+
+function ProblemList({ problems }: { problems: EventProblem[] }) {
+  // Group by event so each broken event is listed once
+  const byEvent = new Map<string, EventProblem[]>();
+  problems.forEach(problem => {
+    const key = `${problem.eventId}|${problem.title}`;
+    byEvent.set(key, [...(byEvent.get(key) ?? []), problem]);
+  });
+
+  return (
+    <ul className="mt-1 max-h-48 overflow-y-auto space-y-1.5 text-xs">
+      {[...byEvent.entries()].map(([key, eventProblems]) => (
+        <li key={key}>
+          <span className="font-medium text-foreground">{eventProblems[0].title}</span>
+          <ul className="ml-3 list-disc list-inside">
+            {eventProblems.map((problem, index) => (
+              <li key={index}>
+                {problem.field && <code className="font-mono">{problem.field}</code>} {problem.message}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Reports stored events that failed validation on load.
+ * They are left out of the calendar; this panel says which and why.
+ * Renders nothing itself — the report is a dismissible toast.
+ */
+export function EventDiagnostics() {
+  const { problems } = useEvents();
+
+  useEffect(() => {
+    if (problems.length === 0) return;
+
+    const eventCount = new Set(problems.map(problem => problem.eventId)).size;
+    toast.warning(`${eventCount} event${eventCount === 1 ? '' : 's'} could not be shown`, {
+      id: DIAGNOSTICS_TOAST_ID,
+      description: <ProblemList problems={problems} />,
+      duration: Infinity,
+      closeButton: true,
+    });
+  }, [problems]);
+
+  return null;
+}
@@ -0,0 +1,633 @@
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { CalendarEvent, RecurrenceRule, parseDateString } from "@/data/events";
+import { CATEGORIES, getCategory, getCategoryColor } from "@/data/categories";
+import { GOAL_PERIODS, getGoalId } from "@/data/goals";
+import { DATE_PATTERN, TIME_PATTERN, dateStringSchema, hslColorSchema, isValidTimeZone } from "@/data/eventSchema";
+import { ColorPreset } from "@/data/years";
+import { WEEKDAY_CODES, getWeekdayIndex } from "@/lib/recurrence";
+import { getTimeZoneNames, getViewerTimeZone } from "@/lib/time";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Plus, X } from "lucide-react";
+
+const eventFormSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title is required'),
+    start: dateStringSchema,
+    end: dateStringSchema,
+    allDay: z.boolean(),
+    startTime: z.string(),
+    endTime: z.string(),
+    timeZone: z.string().trim(),
+    color: z.string().trim().pipe(hslColorSchema),
+    categories: z.array(z.string()),
+    otherTags: z.string(),
+    goals: z.array(z.object({
+      metric: z.string().trim().min(1, 'Required'),
+      target: z.coerce.number().positive('More than 0'),
+      period: z.enum(['day', 'week', 'month', 'event']),
+    })),
+    details: z.string(),
+    repeat: z.enum(['none', 'daily', 'weekly', 'monthly']),
+    interval: z.coerce.number().int().min(1, 'At least 1').max(99),
+    byDay: z.array(z.string()),
+    monthlyMode: z.enum(['dayOfMonth', 'weekdayOfMonth']),
+    ends: z.enum(['never', 'until', 'count']),
+    until: z.string(),
+    count: z.coerce.number().int().min(1, 'At least 1').max(999),
+  })
+  .refine(values => values.end >= values.start, {
+    message: 'End date cannot be before the start date',
+    path: ['end'],
+  })
+  .refine(values => values.allDay || TIME_PATTERN.test(values.startTime), {
+    message: 'Start time is required',
+    path: ['startTime'],
+  })
+  .refine(values => values.allDay || !values.endTime || values.end > values.start || values.endTime >= values.startTime, {
+    message: 'End time cannot be before the start time',
+    path: ['endTime'],
+  })
+  .refine(values => values.allDay || !values.timeZone || isValidTimeZone(values.timeZone), {
+    message: 'Unknown time zone',
+    path: ['timeZone'],
+  })
+  .refine(values => values.repeat === 'none' || values.ends !== 'until'
+    || (DATE_PATTERN.test(values.until) && values.until >= values.start), {
+    message: 'Repeat end must be on or after the start date',
+    path: ['until'],
+  })
+  .refine(values => {
+    const ids = values.goals.map(goal => getGoalId(goal.metric, goal.period));
+    return new Set(ids).size === ids.length;
+  }, {
+    message: 'Two goals have the same metric and period',
+    path: ['goals'],
+  });
+
+type EventFormFields = Required<z.infer<typeof eventFormSchema>>;
+
+export type EventFormValues = Omit<CalendarEvent, 'id'>;
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+/**
+ * BYDAY for "the Nth <weekday> of the month" based on a start date, e.g. "3TU"
+ */
+function getWeekdayOfMonth(dateStr: string): string {
+  const date = parseDateString(dateStr);
+  return `${Math.ceil(date.getDate() / 7)}${WEEKDAY_CODES[getWeekdayIndex(date)]}`;
+}
+
+function toFormFields(event: CalendarEvent): EventFormFields {
+  const rule = event.recurrence;
+  return {
+    title: event.title,
+    start: event.start,
+    end: event.end,
+    allDay: !event.startTime,
+    startTime: event.startTime ?? '',
+    endTime: event.endTime ?? '',
+    timeZone: event.timeZone ?? '',
+    color: event.color,
+    categories: CATEGORIES.filter(category => event.tags?.includes(category.id)).map(category => category.id),
+    otherTags: (event.tags ?? []).filter(tag => !getCategory(tag)).join(', '),
+    goals: (event.goals ?? []).map(({ metric, target, period }) => ({ metric, target, period })),
+    details: event.details,
+    repeat: rule?.freq ?? 'none',
+    interval: rule?.interval ?? 1,
+    byDay: rule?.freq === 'weekly' ? rule.byDay ?? [] : [],
+    monthlyMode: rule?.freq === 'monthly' && rule.byDay?.length ? 'weekdayOfMonth' : 'dayOfMonth',
+    ends: rule?.count !== undefined ? 'count' : rule?.until ? 'until' : 'never',
+    until: rule?.until ?? '',
+    count: rule?.count ?? 10,
+  };
+}
+
+function toEventValues(fields: EventFormFields, event: CalendarEvent): EventFormValues {
+  const { allDay, startTime, endTime, timeZone, categories, otherTags, goals, repeat, interval, byDay, monthlyMode, ends, until, count, ...dates } = fields;
+  const tags = [...new Set([...categories, ...otherTags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)])];
+  const values = {
+    ...dates,
+    tags: tags.length > 0 ? tags : undefined,
+    // Ids follow metric and period: an unchanged goal keeps its recorded
+    // progress, a changed one starts fresh instead of inheriting it
+    goals: goals.length > 0
+      ? goals.map(({ metric, target, period }) => ({ id: getGoalId(metric, period), metric, target, period }))
+      : undefined,
+    startTime: allDay ? undefined : startTime,
+    endTime: allDay || !endTime ? undefined : endTime,
+    timeZone: allDay || !timeZone ? undefined : timeZone,
+  };
+  if (repeat === 'none') {
+    return { ...values, recurrence: undefined };
+  }
+
+  const original = event.recurrence;
+  let ruleByDay: string[] | undefined;
+  if (repeat === 'weekly') {
+    ruleByDay = byDay.length > 0 ? WEEKDAY_CODES.filter(code => byDay.includes(code)) : undefined;
+  } else if (repeat === 'monthly' && monthlyMode === 'weekdayOfMonth') {
+    // Keep an existing rule like "-1FR" (last Friday) unless the start date moved
+    ruleByDay = original?.freq === 'monthly' && original.byDay?.length && values.start === event.start
+      ? original.byDay
+      : [getWeekdayOfMonth(values.start)];
+  }
+
+  const recurrence: RecurrenceRule = {
+    freq: repeat,
+    interval: interval > 1 ? interval : undefined,
+    byDay: ruleByDay,
+    count: ends === 'count' ? count : undefined,
+    until: ends === 'until' ? until : undefined,
+    exdates: original?.exdates, // skipped occurrences are managed from the event, not the form
+  };
+  return { ...values, recurrence };
+}
+
+interface EventFormProps {
+  event: CalendarEvent;
+  colorPresets: ColorPreset[]; // quick picks from the year's config; any "H S% L%" string is still accepted
+  submitLabel: string;
+  onSubmit: (values: EventFormValues) => void;
+  onCancel: () => void;
+}
+
+export function EventForm({ event, colorPresets, submitLabel, onSubmit, onCancel }: EventFormProps) {
+  const form = useForm<EventFormFields>({
+    resolver: zodResolver(eventFormSchema),
+    defaultValues: toFormFields(event),
+  });
+
+  const color = form.watch('color');
+  const repeat = form.watch('repeat');
+  const ends = form.watch('ends');
+  const allDay = form.watch('allDay');
+  const goalFields = useFieldArray({ control: form.control, name: 'goals' });
+
+  // The color follows the categories until it's picked by hand
+  const colorFollowsCategories = event.id === '' || event.color === getCategoryColor(event.tags);
+
+  const handleCategoriesChange = (categories: string[]) => {
+    form.setValue('categories', categories);
+    const categoryColor = getCategoryColor(categories);
+    if (categoryColor && colorFollowsCategories && !form.getFieldState('color').isDirty) {
+      form.setValue('color', categoryColor, { shouldValidate: true });
+    }
+  };
+
+  const intervalUnit = { none: '', daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' }[repeat];
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(fields => onSubmit(toEventValues(fields, event)))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input placeholder="Swim Focus Week" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-3">
+          <FormField
+            control={form.control}
+            name="start"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="end"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>End</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="allDay"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel className="font-normal">All day</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        {!allDay && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start time</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End time</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="timeZone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time zone</FormLabel>
+                  <FormControl>
+                    <Input list="event-time-zones" placeholder={`${getViewerTimeZone()} (yours)`} {...field} />
+                  </FormControl>
+                  <datalist id="event-time-zones">
+                    {getTimeZoneNames().map(zone => <option key={zone} value={zone} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {/* Recurrence */}
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <FormField
+              control={form.control}
+              name="repeat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeat</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {repeat !== 'none' && (
+              <FormField
+                control={form.control}
+                name="interval"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every {intervalUnit}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={99} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+
+          {repeat === 'weekly' && (
+            <FormField
+              control={form.control}
+              name="byDay"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>On</FormLabel>
+                  <FormControl>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      className="justify-start"
+                      value={field.value}
+                      onValueChange={field.onChange}
+                    >
+                      {WEEKDAY_CODES.map((code, index) => (
+                        <ToggleGroupItem key={code} value={code} aria-label={code} className="w-8">
+                          {WEEKDAY_LABELS[index]}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {repeat === 'monthly' && (
+            <FormField
+              control={form.control}
+              name="monthlyMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>On</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="dayOfMonth">The same day of the month</SelectItem>
+                      <SelectItem value="weekdayOfMonth">The same weekday of the month</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {repeat !== 'none' && (
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="ends"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        <SelectItem value="until">On date</SelectItem>
+                        <SelectItem value="count">After</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {ends === 'until' && (
+                <FormField
+                  control={form.control}
+                  name="until"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {ends === 'count' && (
+                <FormField
+                  control={form.control}
+                  name="count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Occurrences</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={999} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="color"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Color</FormLabel>
+              <div className="flex items-center gap-1.5">
+                {colorPresets.map(preset => (
+                  <button
+                    key={preset.value}
+                    type="button"
+                    title={preset.label}
+                    aria-label={preset.label}
+                    onClick={() => form.setValue('color', preset.value, { shouldValidate: true, shouldDirty: true })}
+                    className={`w-5 h-5 rounded-full transition-transform hover:scale-110 ${
+                      color === preset.value ? 'ring-2 ring-offset-2 ring-offset-card ring-foreground/60' : ''
+                    }`}
+                    style={{ backgroundColor: `hsl(${preset.value})` }}
+                  />
+                ))}
+              </div>
+              <FormControl>
+                <Input className="font-mono" placeholder="200 98% 39%" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="categories"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Categories</FormLabel>
+              <FormControl>
+                <ToggleGroup
+                  type="multiple"
+                  size="sm"
+                  variant="outline"
+                  value={field.value}
+                  onValueChange={handleCategoriesChange}
+                  className="flex-wrap justify-start"
+                >
+                  {CATEGORIES.map(category => (
+                    <ToggleGroupItem key={category.id} value={category.id} className="h-7 px-2 text-xs gap-1.5">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: `hsl(${category.color})` }} />
+                      {category.label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="otherTags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Other tags</FormLabel>
+              <FormControl>
+                <Input placeholder="Comma-separated, e.g. long-run, travel" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <FormLabel>Goals</FormLabel>
+          {goalFields.fields.map((goal, index) => (
+            <div key={goal.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`goals.${index}.target`}
+                render={({ field }) => (
+                  <FormItem className="w-20">
+                    <FormControl>
+                      <Input type="number" min={0} step="any" placeholder="40" aria-label="Target" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`goals.${index}.metric`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="km run" aria-label="Metric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`goals.${index}.period`}
+                render={({ field }) => (
+                  <FormItem className="w-28">
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Period">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {GOAL_PERIODS.map(period => (
+                          <SelectItem key={period.id} value={period.id}>{period.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => goalFields.remove(index)}
+                aria-label="Remove goal"
+                className="flex-shrink-0 text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {form.formState.errors.goals?.root?.message || form.formState.errors.goals?.message ? (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.goals?.root?.message ?? form.formState.errors.goals?.message}
+            </p>
+          ) : null}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => goalFields.append({ metric: '', target: undefined, period: 'week' })}
+            className="gap-1.5"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add goal
+          </Button>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="details"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Details</FormLabel>
+              <FormControl>
+                <Textarea rows={8} className="font-mono text-xs" placeholder="**Markdown** supported" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit">{submitLabel}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -1,10 +1,37 @@
-import { useEffect, useRef } from "react";
-import { CalendarEvent, isMultiDayEvent } from "@/data/events";
-import { X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { CalendarEvent, isMultiDayEvent, parseDateString } from "@/data/events";
+import { useEventMutations, useEvents } from "@/hooks/use-events";
+import { useChecklistMutation, useChecklists } from "@/hooks/use-checklists";
+import { useWorkouts } from "@/hooks/use-workouts";
+import { EventForm, EventFormValues } from "@/components/EventForm";
+import { Markdown } from "@/components/Markdown";
+import { WorkoutList } from "@/components/WorkoutList";
+import { GoalProgressList } from "@/components/GoalProgressList";
+import { ColorPreset } from "@/data/years";
+import { formatWorkoutStats, getWorkoutTotals, getWorkoutsInRange } from "@/data/workouts";
+import { EditScope, describeRecurrence, getOccurrenceKey } from "@/lib/recurrence";
+import { getTaskState, parseTasks } from "@/lib/checklist";
+import { downloadCalendar, serializeCalendar } from "@/lib/ics";
+import { formatTimeRange, formatViewerStart, getEventZoneLabel } from "@/lib/time";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Download, Pencil, Repeat, Trash2, X } from "lucide-react";
 
 interface EventModalProps {
   event: CalendarEvent;
+  colorPresets: ColorPreset[]; // editor swatches from the year's config
+  weekStartsOn: 0 | 1; // where weekly goals start counting
   isOpen: boolean;
+  isNew?: boolean; // draft from a day cell: opens in the editor and creates on save
   onClose: () => void;
 }
 
@@ -13,47 +40,61 @@ const MONTH_NAMES = [
   'July', 'August', 'September', 'October', 'November', 'December'
 ];
 
-/**
- * Simple Markdown parser for event details
- */
-function parseMarkdown(text: string): string {
-  return text
-    // Headers
-    .replace(/^### (.+)$/gm, '<h4 class="text-base font-semibold mt-4 mb-2 text-foreground">$1</h4>')
-    .replace(/^## (.+)$/gm, '<h3 class="text-lg font-semibold mt-4 mb-2 text-foreground">$1</h3>')
-    // Bold
-    .replace(/\*\*(.+?)\*\*/g, '<strong class="font-semibold text-foreground">$1</strong>')
-    // Italic
-    .replace(/\*(.+?)\*/g, '<em class="italic">$1</em>')
-    // List items
-    .replace(/^- (.+)$/gm, '<li class="ml-4 list-disc list-inside text-foreground/80">$1</li>')
-    // Blockquotes
-    .replace(/^> (.+)$/gm, '<blockquote class="border-l-2 border-primary/50 pl-4 italic text-muted-foreground my-2">$1</blockquote>')
-    // Line breaks
-    .replace(/\n\n/g, '</p><p class="mt-3">')
-    .replace(/\n/g, '<br />');
-}
-
 function formatDateRange(event: CalendarEvent): string {
-  const start = new Date(event.start);
-  const end = new Date(event.end);
-  
+  // parseDateString reads the dates as local days; new Date("YYYY-MM-DD") is UTC midnight
+  const start = parseDateString(event.start);
+  const end = parseDateString(event.end);
+  const zone = getEventZoneLabel(event);
+
   const formatDate = (d: Date) => 
     `${MONTH_NAMES[d.getMonth()]} ${d.getDate()}, ${d.getFullYear()}`;
+  const withTime = (date: string, time?: string) => (time ? `${date}, ${time}` : date);
+  const withZone = (range: string) => (zone ? `${range} ${zone}` : range);
   
   if (isMultiDayEvent(event)) {
-    return `${formatDate(start)} — ${formatDate(end)}`;
+    return withZone(`${withTime(formatDate(start), event.startTime)} — ${withTime(formatDate(end), event.endTime)}`);
   }
-  return formatDate(start);
+  return withZone(withTime(formatDate(start), formatTimeRange(event) || undefined));
 }
 
-export function EventModal({ event, isOpen, onClose }: EventModalProps) {
+export function EventModal({ event, colorPresets, weekStartsOn, isOpen, isNew = false, onClose }: EventModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
+  const { events } = useEvents();
+  const { createEvent, updateEvent, deleteEvent, updateOccurrence, deleteOccurrence } = useEventMutations();
+  const [isEditing, setIsEditing] = useState(isNew);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  // Pending change to a recurring event, waiting for the user to pick a scope
+  const [scopeAction, setScopeAction] = useState<{ type: 'edit'; values: EventFormValues } | { type: 'delete' } | null>(null);
+
+  // Show the latest stored version so edits are reflected immediately.
+  // Occurrences of a recurring series keep their own dates.
+  const stored = events.find(e => e.id === event.id);
+  const current = stored
+    ? event.occurrenceStart
+      ? { ...stored, start: event.start, end: event.end, occurrenceStart: event.occurrenceStart }
+      : stored
+    : event;
+  const isOccurrence = !!current.occurrenceStart;
+
+  // Checklist progress is kept per occurrence, apart from the details text
+  const checklists = useChecklists();
+  const { setCompletedTasks } = useChecklistMutation();
+  const tasks = parseTasks(current.details);
+  const taskState = getTaskState(tasks, checklists[getOccurrenceKey(current)]);
+
+  // A phase lists the sessions logged while it ran
+  const workouts = useWorkouts();
+  const phaseWorkouts = !isNew && isMultiDayEvent(current) ? getWorkoutsInRange(workouts, current.start, current.end) : [];
+
+  const handleTaskToggle = (index: number) => {
+    const next = taskState.map((checked, i) => (i === index ? !checked : checked));
+    setCompletedTasks(current, next.flatMap((checked, i) => (checked ? [i] : [])));
+  };
 
-  // Close on escape key
+  // Close on escape key (the confirmation dialogs handle their own escape)
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') onClose();
+      if (e.key === 'Escape' && !isConfirmingDelete && !scopeAction) onClose();
     };
     
     if (isOpen) {
@@ -65,7 +106,59 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
       document.removeEventListener('keydown', handleEscape);
       document.body.style.overflow = '';
     };
-  }, [isOpen, onClose]);
+  }, [isOpen, isConfirmingDelete, scopeAction, onClose]);
+
+  const handleSubmit = (values: EventFormValues) => {
+    if (isNew) {
+      createEvent(values);
+      onClose();
+      return;
+    }
+    if (isOccurrence) {
+      setScopeAction({ type: 'edit', values });
+      return;
+    }
+    updateEvent(current.id, values);
+    setIsEditing(false);
+  };
+
+  const handleCancelEdit = () => {
+    if (isNew) {
+      onClose();
+      return;
+    }
+    setIsEditing(false);
+  };
+
+  // Export the whole series for recurring events, not just this occurrence
+  const handleExport = () => {
+    const exported = stored ?? current;
+    downloadCalendar(serializeCalendar([exported], exported.title), exported.id);
+  };
+
+  const handleDeleteClick = () => {
+    if (isOccurrence) {
+      setScopeAction({ type: 'delete' });
+    } else {
+      setIsConfirmingDelete(true);
+    }
+  };
+
+  const handleDelete = () => {
+    deleteEvent(current.id);
+    setIsConfirmingDelete(false);
+    onClose();
+  };
+
+  const handleScopeSelect = (scope: EditScope) => {
+    if (scopeAction?.type === 'edit') {
+      updateOccurrence(current, scopeAction.values, scope);
+    } else if (scopeAction?.type === 'delete') {
+      deleteOccurrence(current, scope);
+    }
+    setScopeAction(null);
+    onClose();
+  };
 
   // Close on click outside
   const handleBackdropClick = (e: React.MouseEvent) => {
@@ -89,35 +182,161 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
       >
         {/* Header */}
         <header className="sticky top-0 bg-card border-b border-border px-6 py-4 flex items-center justify-between">
-          <div>
-            <h3 className="text-xl font-serif font-semibold text-foreground flex items-center gap-2">
-              <span 
-                className="w-3 h-3 rounded-full flex-shrink-0"
-                style={{ backgroundColor: `hsl(${event.color})` }}
-              />
-              {event.title}
+          {isNew ? (
+            <h3 className="text-xl font-serif font-semibold text-foreground">
+              New Event
             </h3>
-            <p className="text-sm text-muted-foreground mt-1">
-              {formatDateRange(event)}
-            </p>
+          ) : (
+            <div>
+              <h3 className="text-xl font-serif font-semibold text-foreground flex items-center gap-2">
+                <span 
+                  className="w-3 h-3 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: `hsl(${current.color})` }}
+                />
+                {current.title}
+              </h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                {formatDateRange(current)}
+              </p>
+              {formatViewerStart(current) && (
+                <p className="text-xs text-muted-foreground mt-0.5">{formatViewerStart(current)}</p>
+              )}
+              {current.recurrence && (
+                <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1">
+                  <Repeat className="w-3 h-3" />
+                  {describeRecurrence(current.recurrence)}
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex items-center gap-1">
+            {!isNew && !isEditing && (
+              <>
+                <button
+                  onClick={handleExport}
+                  className="p-2 rounded-lg hover:bg-muted/50 transition-colors text-muted-foreground hover:text-foreground"
+                  aria-label="Export event as .ics"
+                  title="Export as .ics"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setIsEditing(true)}
+                  className="p-2 rounded-lg hover:bg-muted/50 transition-colors text-muted-foreground hover:text-foreground"
+                  aria-label="Edit event"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleDeleteClick}
+                  className="p-2 rounded-lg hover:bg-destructive/10 transition-colors text-muted-foreground hover:text-destructive"
+                  aria-label="Delete event"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-muted/50 transition-colors text-muted-foreground hover:text-foreground"
+              aria-label="Close modal"
+            >
+              <X className="w-5 h-5" />
+            </button>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 rounded-lg hover:bg-muted/50 transition-colors text-muted-foreground hover:text-foreground"
-            aria-label="Close modal"
-          >
-            <X className="w-5 h-5" />
-          </button>
         </header>
 
         {/* Content */}
         <div className="overflow-y-auto max-h-[calc(80vh-100px)] p-6">
-          <div 
-            className="prose prose-sm max-w-none text-foreground/90"
-            dangerouslySetInnerHTML={{ __html: parseMarkdown(event.details) }}
-          />
+          {isEditing ? (
+            <EventForm
+              event={current}
+              colorPresets={colorPresets}
+              submitLabel={isNew ? 'Create event' : 'Save changes'}
+              onSubmit={handleSubmit}
+              onCancel={handleCancelEdit}
+            />
+          ) : (
+            <>
+              {current.goals && current.goals.length > 0 && (
+                <section className="mb-6 pb-4 border-b border-border/50">
+                  <h4 className="text-xs font-mono uppercase tracking-wider text-muted-foreground/70 mb-3">
+                    Goals
+                  </h4>
+                  <GoalProgressList event={current} weekStartsOn={weekStartsOn} />
+                </section>
+              )}
+              <Markdown
+                content={current.details}
+                tasks={tasks.length > 0 ? { checked: taskState, onToggle: handleTaskToggle } : undefined}
+              />
+              {phaseWorkouts.length > 0 && (
+                <section className="mt-6 pt-4 border-t border-border/50">
+                  <h4 className="flex items-baseline justify-between gap-2 text-xs font-mono uppercase tracking-wider text-muted-foreground/70 mb-2">
+                    Logged sessions
+                    <span className="normal-case tracking-normal">
+                      {phaseWorkouts.length} · {formatWorkoutStats(getWorkoutTotals(phaseWorkouts))}
+                    </span>
+                  </h4>
+                  <WorkoutList workouts={phaseWorkouts} showDates />
+                </section>
+              )}
+            </>
+          )}
         </div>
       </div>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{current.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the event from the calendar. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Scope choice for recurring events */}
+      <AlertDialog open={!!scopeAction} onOpenChange={(open) => !open && setScopeAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {scopeAction?.type === 'delete' ? 'Delete recurring event' : 'Edit recurring event'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              "{current.title}" repeats. Which occurrences should this apply to?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex flex-col gap-2">
+            <Button variant="outline" onClick={() => handleScopeSelect('this')}>
+              This event
+            </Button>
+            <Button variant="outline" onClick={() => handleScopeSelect('following')}>
+              This and following events
+            </Button>
+            <Button
+              variant={scopeAction?.type === 'delete' ? 'destructive' : 'outline'}
+              onClick={() => handleScopeSelect('all')}
+            >
+              All events
+            </Button>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { EventFilter, EventFilterMode } from "@/data/categories";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+interface FilterBarProps {
+  filter: EventFilter | null;
+  tags: { id: string; label: string; color?: string }[]; // categories first, then other tags in use
+  onChange: (filter: EventFilter | null) => void;
+}
+
+/**
+ * Tag filter for the month view: pick tags, then whether to show only
+ * events with them or hide those events
+ */
+export function FilterBar({ filter, tags, onChange }: FilterBarProps) {
+  // Remembered while no tag is picked, so "Hide" sticks for the first pick
+  const [pendingMode, setPendingMode] = useState<EventFilterMode>('only');
+  const mode = filter?.mode ?? pendingMode;
+
+  const handleModeChange = (value: string) => {
+    if (value !== 'only' && value !== 'hide') return; // clicking the pressed item deselects it
+    setPendingMode(value);
+    if (filter) onChange({ ...filter, mode: value });
+  };
+
+  const handleTagsChange = (selected: string[]) => {
+    onChange(selected.length > 0 ? { mode, tags: selected } : null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto scrollbar-hide">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={mode}
+        onValueChange={handleModeChange}
+        className="flex-shrink-0 gap-0"
+        aria-label="Filter mode"
+      >
+        <ToggleGroupItem value="only" className="h-7 px-2 text-xs rounded-r-none">Only</ToggleGroupItem>
+        <ToggleGroupItem value="hide" className="h-7 px-2 text-xs rounded-l-none border-l-0">Hide</ToggleGroupItem>
+      </ToggleGroup>
+
+      <ToggleGroup
+        type="multiple"
+        size="sm"
+        value={filter?.tags ?? []}
+        onValueChange={handleTagsChange}
+        className="flex-shrink-0"
+        aria-label="Tags"
+      >
+        {tags.map(tag => (
+          <ToggleGroupItem key={tag.id} value={tag.id} className="h-7 px-2 text-xs gap-1.5">
+            <span
+              className="w-2 h-2 rounded-full flex-shrink-0"
+              style={{ backgroundColor: tag.color ? `hsl(${tag.color})` : 'hsl(var(--muted-foreground))' }}
+            />
+            {tag.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {filter && (
+        <button
+          onClick={() => onChange(null)}
+          className="flex-shrink-0 p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+          aria-label="Clear filter"
+          title="Clear filter"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
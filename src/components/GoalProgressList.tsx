@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { X } from "lucide-react";
+import { CalendarEvent, formatDateString, parseDateString } from "@/data/events";
+import { EventGoal, formatGoal } from "@/data/goals";
+import { useGoalEntries, useGoalEntryMutations } from "@/hooks/use-goal-entries";
+import { GoalStatus, describeGoalProgress, formatGoalAmount, getGoalProgress } from "@/lib/goalProgress";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+interface GoalProgressListProps {
+  event: CalendarEvent; // an occurrence of a recurring event tracks its own progress
+  weekStartsOn: 0 | 1;
+}
+
+const STATUS_STYLES: Record<GoalStatus, { label: string; text: string; indicator: string }> = {
+  'upcoming': { label: 'Upcoming', text: 'text-muted-foreground', indicator: 'bg-muted-foreground' },
+  'on-track': { label: 'On track', text: 'text-primary', indicator: 'bg-primary' },
+  'behind': { label: 'Behind', text: 'text-destructive', indicator: 'bg-destructive/80' },
+  'met': { label: 'Met', text: 'text-primary', indicator: 'bg-primary' },
+  'missed': { label: 'Missed', text: 'text-destructive', indicator: 'bg-destructive/80' },
+};
+
+// Entries of the shown period listed under each goal until "Show all" is clicked
+const RECENT_ENTRIES = 5;
+
+/**
+ * Goals of an event with progress bars, projections and a way to record progress
+ */
+export function GoalProgressList({ event, weekStartsOn }: GoalProgressListProps) {
+  return (
+    <div className="space-y-4">
+      {(event.goals ?? []).map(goal => (
+        <GoalRow key={goal.id} goal={goal} event={event} weekStartsOn={weekStartsOn} />
+      ))}
+    </div>
+  );
+}
+
+function GoalRow({ goal, event, weekStartsOn }: { goal: EventGoal; event: CalendarEvent; weekStartsOn: 0 | 1 }) {
+  const entries = useGoalEntries();
+  const { addGoalEntry, deleteGoalEntry } = useGoalEntryMutations();
+  const progress = getGoalProgress(goal, event, entries, weekStartsOn);
+  const style = STATUS_STYLES[progress.status];
+
+  // New entries go in the shown period, so they show up below and move its bar; today by default
+  const todayStr = formatDateString(new Date());
+  const defaultDate = todayStr < progress.start ? progress.start : todayStr > progress.end ? progress.end : todayStr;
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(defaultDate);
+  const [showAll, setShowAll] = useState(false);
+
+  const amountValue = Number(amount);
+  const canAdd = amount.trim() !== '' && Number.isFinite(amountValue) && amountValue > 0 && date >= progress.start && date <= progress.end;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    addGoalEntry(event, goal.id, date, amountValue);
+    setAmount('');
+  };
+
+  const eventKey = getOccurrenceKey(event);
+  const periodEntries = entries
+    .filter(entry => entry.eventKey === eventKey && entry.goalId === goal.id && entry.date >= progress.start && entry.date <= progress.end)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const recent = showAll ? periodEntries : periodEntries.slice(0, RECENT_ENTRIES);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-sm font-medium text-foreground">{formatGoal(goal)}</span>
+        <span className={`text-[10px] font-mono uppercase tracking-wider ${style.text}`}>{style.label}</span>
+      </div>
+      <Progress
+        value={progress.percent}
+        className="h-2 mt-1.5 bg-muted/40"
+        indicatorClassName={style.indicator}
+        aria-label={`${formatGoal(goal)}: ${Math.round(progress.percent)}%`}
+      />
+      <div className="flex items-baseline justify-between gap-2 mt-1 text-xs text-muted-foreground">
+        <span className="font-mono">
+          {formatGoalAmount(progress.total)} / {formatGoalAmount(goal.target)} {goal.metric} {progress.label}
+        </span>
+        <span className="text-right">{describeGoalProgress(progress)}</span>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2 mt-2">
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          placeholder={goal.metric}
+          aria-label={`Amount in ${goal.metric}`}
+          className="h-8 w-24 text-xs"
+        />
+        <Input
+          type="date"
+          value={date}
+          min={progress.start}
+          max={progress.end}
+          onChange={e => setDate(e.target.value)}
+          aria-label="Date"
+          className="h-8 w-36 text-xs"
+        />
+        <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!canAdd}>
+          Add
+        </Button>
+      </form>
+
+      {recent.length > 0 && (
+        <ul className="mt-2 space-y-0.5">
+          {recent.map(entry => (
+            <li key={entry.id} className="group flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-mono w-20">{format(parseDateString(entry.date), 'EEE MMM d')}</span>
+              <span className="text-foreground">+{formatGoalAmount(entry.amount)} {goal.metric}</span>
+              <button
+                onClick={() => deleteGoalEntry(entry.id)}
+                className="ml-auto p-0.5 rounded opacity-0 group-hover:opacity-100 focus-visible:opacity-100 hover:text-destructive transition-opacity"
+                aria-label="Remove entry"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+          {periodEntries.length > RECENT_ENTRIES && (
+            <li>
+              <button
+                onClick={() => setShowAll(!showAll)}
+                className="text-xs text-muted-foreground hover:text-foreground underline-offset-2 hover:underline"
+              >
+                {showAll ? 'Show fewer' : `Show all ${periodEntries.length}`}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
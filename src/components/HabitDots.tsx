@@ -0,0 +1,44 @@
+import { Habit, isCheckedIn } from "@/data/habits";
+import { useEventColors } from "@/hooks/use-event-colors";
+
+interface HabitDotsProps {
+  habits: Habit[];
+  date: string; // YYYY-MM-DD
+  onToggle: (habitId: string, date: string) => void;
+}
+
+/**
+ * One small dot per habit in a month cell: filled when checked in,
+ * an outline otherwise. Clicking a dot checks the habit in or out.
+ */
+export function HabitDots({ habits, date, onToggle }: HabitDotsProps) {
+  const eventColors = useEventColors();
+
+  if (habits.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-px md:gap-0.5 min-w-0 overflow-hidden">
+      {habits.map(habit => {
+        const done = isCheckedIn(habit, date);
+        const color = eventColors(habit.color).solid;
+        const label = `${habit.name}: ${done ? 'done' : 'not done'}`;
+
+        return (
+          <button
+            key={habit.id}
+            onClick={(e) => {
+              e.stopPropagation(); // the cell itself opens the new-event editor
+              onToggle(habit.id, date);
+            }}
+            title={label}
+            aria-label={label}
+            aria-pressed={done}
+            className={`flex-shrink-0 w-1.5 h-1.5 md:w-2 md:h-2 rounded-full border transition-opacity
+              ${done ? '' : 'opacity-40 group-hover:opacity-80 hover:!opacity-100'}`}
+            style={{ borderColor: color, backgroundColor: done ? color : 'transparent' }}
+          />
+        );
+      })}
+    </div>
+  );
+}
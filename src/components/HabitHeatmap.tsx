@@ -0,0 +1,84 @@
+import { addDays, format, startOfWeek } from "date-fns";
+import { formatDateString } from "@/data/events";
+import { Habit, isCheckedIn } from "@/data/habits";
+import { useEventColors } from "@/hooks/use-event-colors";
+
+interface HabitHeatmapProps {
+  habit: Habit;
+  year: number;
+  weekStartsOn: 0 | 1;
+  onToggle: (habitId: string, date: string) => void;
+}
+
+/**
+ * HELPER: The year as week columns of seven dates; days outside the year are null
+ */
+function getHeatmapWeeks(year: number, weekStartsOn: 0 | 1): (Date | null)[][] {
+  const weeks: (Date | null)[][] = [];
+  const yearEnd = new Date(year, 11, 31);
+  for (let weekStart = startOfWeek(new Date(year, 0, 1), { weekStartsOn }); weekStart <= yearEnd; weekStart = addDays(weekStart, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => {
+      const date = addDays(weekStart, index);
+      return date.getFullYear() === year ? date : null;
+    }));
+  }
+  return weeks;
+}
+
+/**
+ * A year of check-ins, one square per day, weeks as columns.
+ * Past days and today can be clicked to check in or out.
+ */
+export function HabitHeatmap({ habit, year, weekStartsOn, onToggle }: HabitHeatmapProps) {
+  const eventColors = useEventColors();
+  const color = eventColors(habit.color).solid;
+  const todayStr = formatDateString(new Date());
+  const weeks = getHeatmapWeeks(year, weekStartsOn);
+
+  return (
+    <div className="overflow-x-auto pb-1">
+      <div className="inline-flex flex-col gap-1">
+        {/* Month labels above the week where each month starts */}
+        <div className="flex gap-[3px] h-3">
+          {weeks.map((week, index) => {
+            const first = week.find(date => date?.getDate() === 1);
+            return (
+              <div key={index} className="w-2.5 text-[9px] leading-none text-muted-foreground overflow-visible whitespace-nowrap">
+                {first ? format(first, 'MMM') : ''}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-[3px]">
+          {weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="flex flex-col gap-[3px]">
+              {week.map((date, dayIndex) => {
+                if (!date) return <div key={dayIndex} className="w-2.5 h-2.5" />;
+
+                const dateStr = formatDateString(date);
+                const done = isCheckedIn(habit, dateStr);
+                const isFuture = dateStr > todayStr;
+                const label = `${format(date, 'EEE MMM d')}: ${done ? 'done' : 'not done'}`;
+
+                return (
+                  <button
+                    key={dayIndex}
+                    onClick={() => onToggle(habit.id, dateStr)}
+                    disabled={isFuture}
+                    title={label}
+                    aria-label={label}
+                    aria-pressed={done}
+                    className={`w-2.5 h-2.5 rounded-[2px] transition-colors
+                      ${done ? '' : isFuture ? 'bg-muted/30' : 'bg-muted hover:bg-muted-foreground/30'}
+                      ${dateStr === todayStr ? 'ring-1 ring-foreground/40' : ''}`}
+                    style={done ? { backgroundColor: color } : undefined}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
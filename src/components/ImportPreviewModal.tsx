@@ -0,0 +1,145 @@
+import { useEffect } from "react";
+import { X } from "lucide-react";
+import { ImportAction, ImportPlanRow } from "@/lib/ics";
+import { describeRecurrence } from "@/lib/recurrence";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface ImportPreviewModalProps {
+  fileName: string;
+  rows: ImportPlanRow[];
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+  add: { label: 'Add', className: 'bg-primary/15 text-primary border-primary/30' },
+  update: { label: 'Update', className: 'bg-amber-500/15 text-amber-700 border-amber-500/30' },
+  skip: { label: 'Skip', className: 'bg-muted/30 text-muted-foreground border-border' },
+};
+
+/**
+ * Preview of an .ics import: what will be added, updated or skipped
+ */
+export function ImportPreviewModal({ fileName, rows, onConfirm, onClose }: ImportPreviewModalProps) {
+  const addCount = rows.filter(row => row.action === 'add').length;
+  const updateCount = rows.filter(row => row.action === 'update').length;
+  const skipCount = rows.length - addCount - updateCount;
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = '';
+    };
+  }, [onClose]);
+
+  // Close on click outside
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      onClick={handleBackdropClick}
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-foreground/20 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-card rounded-xl shadow-xl max-w-3xl w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <header className="bg-card border-b border-border px-6 py-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-serif font-semibold text-foreground">
+              Import Calendar
+            </h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              {fileName}: {addCount} to add, {updateCount} to update, {skipCount} skipped
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-muted/50 transition-colors text-muted-foreground hover:text-foreground"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </header>
+
+        {/* Content */}
+        <div className="overflow-y-auto flex-1 px-6 py-4">
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No events found in this file.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Action</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={`${row.event?.id ?? 'invalid'}-${index}`} className={row.action === 'skip' ? 'opacity-60' : ''}>
+                    <TableCell>
+                      <Badge variant="outline" className={ACTION_STYLES[row.action].className}>
+                        {ACTION_STYLES[row.action].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {row.event?.title ?? '—'}
+                      {row.event?.recurrence && (
+                        <span className="block text-xs font-normal text-muted-foreground">
+                          {describeRecurrence(row.event.recurrence)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs whitespace-nowrap">
+                      {row.event
+                        ? row.event.start === row.event.end
+                          ? row.event.start
+                          : `${row.event.start} — ${row.event.end}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{row.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <footer className="border-t border-border px-6 py-4 flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={addCount + updateCount === 0}>
+            Import {addCount + updateCount} event{addCount + updateCount === 1 ? '' : 's'}
+          </Button>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -1,78 +1,17 @@
 import { useEffect, useRef } from "react";
 import { X } from "lucide-react";
+import { Markdown } from "@/components/Markdown";
 
 interface ManifestationModalProps {
+  content: string; // Markdown, from the year's config (see data/years.ts)
+  mantras: string[]; // quarterly mantras, Jan–Mar first
   isOpen: boolean;
   onClose: () => void;
 }
 
-/**
- * MANIFESTATION CONTENT
- * =====================
- * Edit this Markdown content to update the manifestation page.
- */
-const MANIFESTATION_CONTENT = `# 2026 Manifestation`;
+const QUARTER_LABELS = ['January–March', 'April–June', 'July–September', 'October–December'];
 
-// This is the year of the **Hybrid Athlete**.
-
-// ## Core Principles
-
-// - Train consistently
-// - Respect recovery
-// - Do hard things on purpose
-
-// ## The Vision
-
-// This year is about becoming someone who:
-
-// - **Runs** — not away from, but toward challenge
-// - **Swims** — through discomfort with grace
-// - **Lifts** — themselves and others up
-// - **Endures** — when everything says to stop
-
-// ## Monthly Mantras
-
-// **January–March**: *Build the foundation*
-
-// **April–June**: *Embrace the grind*
-
-// **July–September**: *Peak and perform*
-
-// **October–December**: *Reflect and renew*
-
-// ---
-
-// > "The body achieves what the mind believes."
-
-// ---
-
-// *This is not just a year. This is a transformation.*`;
-
-/**
- * Simple Markdown parser
- */
-function parseMarkdown(text: string): string {
-  return text
-    // Headers
-    .replace(/^### (.+)$/gm, '<h4 class="text-base font-semibold mt-4 mb-2 text-foreground">$1</h4>')
-    .replace(/^## (.+)$/gm, '<h3 class="text-lg font-semibold mt-5 mb-3 text-foreground">$1</h3>')
-    .replace(/^# (.+)$/gm, '<h2 class="text-2xl font-serif font-bold mt-2 mb-4 text-foreground">$1</h2>')
-    // Horizontal rule
-    .replace(/^---$/gm, '<hr class="border-border my-6" />')
-    // Bold
-    .replace(/\*\*(.+?)\*\*/g, '<strong class="font-semibold text-foreground">$1</strong>')
-    // Italic
-    .replace(/\*(.+?)\*/g, '<em class="italic">$1</em>')
-    // List items
-    .replace(/^- (.+)$/gm, '<li class="ml-4 list-disc list-inside text-foreground/80 my-1">$1</li>')
-    // Blockquotes
-    .replace(/^> (.+)$/gm, '<blockquote class="border-l-2 border-primary/50 pl-4 italic text-muted-foreground my-4">$1</blockquote>')
-    // Line breaks
-    .replace(/\n\n/g, '</p><p class="mt-3">')
-    .replace(/\n/g, '<br />');
-}
-
-export function ManifestationModal({ isOpen, onClose }: ManifestationModalProps) {
+export function ManifestationModal({ content, mantras, isOpen, onClose }: ManifestationModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
 
   // Close on escape key
@@ -128,10 +67,22 @@ export function ManifestationModal({ isOpen, onClose }: ManifestationModalProps)
 
         {/* Content */}
         <div className="overflow-y-auto max-h-[calc(80vh-80px)] p-6">
-          <div 
-            className="prose prose-sm max-w-none text-foreground/90"
-            dangerouslySetInnerHTML={{ __html: parseMarkdown(MANIFESTATION_CONTENT) }}
-          />
+          <Markdown content={content} />
+
+          {/* Quarterly mantras */}
+          {mantras.length > 0 && (
+            <section className="mt-6 pt-4 border-t border-border">
+              <h4 className="text-base font-semibold mb-3 text-foreground">Quarterly Mantras</h4>
+              <dl className="space-y-2 text-sm">
+                {mantras.map((mantra, index) => (
+                  <div key={index} className="flex gap-3">
+                    <dt className="w-36 flex-shrink-0 font-semibold text-foreground">{QUARTER_LABELS[index]}</dt>
+                    <dd className="italic text-foreground/80">{mantra}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,145 @@
+import { ComponentProps, createContext, useContext, useMemo } from "react";
+import ReactMarkdown, { Components, ExtraProps } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { parseTasks } from "@/lib/checklist";
+import { cn } from "@/lib/utils";
+
+/**
+ * MARKDOWN
+ * ========
+ *
+ * Renders user-written Markdown (event details, the year's manifestation)
+ * as a React tree: CommonMark plus GFM tables, task lists, strikethrough
+ * and autolinks.
+ *
+ * Nothing is injected as HTML. Raw HTML in the source shows as plain text,
+ * and unsafe link targets (javascript: and the like) are dropped by
+ * react-markdown's default URL transform, so event text can't run script.
+ *
+ * Task list checkboxes are read-only unless `tasks` is passed, in which
+ * case they reflect `tasks.checked` and report clicks by task index.
+ */
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+  tasks?: {
+    checked: boolean[]; // by task index, in document order
+    onToggle: (index: number) => void;
+  };
+}
+
+/**
+ * Interactive task state, shared with list items through context so the
+ * components map below can stay static
+ */
+interface TaskListContextValue {
+  checked: boolean[];
+  onToggle: (index: number) => void;
+  indexByLine: Map<number, number>; // source line of a task item -> task index
+}
+
+const TaskListContext = createContext<TaskListContextValue | null>(null);
+
+/**
+ * List item; for interactive task items, also renders the checkbox,
+ * matched to its task by the item's source line
+ */
+function ListItem({ node, className, children, ...props }: ComponentProps<'li'> & ExtraProps) {
+  const taskList = useContext(TaskListContext);
+  const isTask = className?.includes('task-list-item');
+  const index = taskList && node?.position ? taskList.indexByLine.get(node.position.start.line) : undefined;
+
+  if (!isTask || !taskList || index === undefined) {
+    return <li className={cn('pl-1', isTask && 'flex items-start gap-2')} {...props}>{children}</li>;
+  }
+
+  const checked = taskList.checked[index] ?? false;
+  return (
+    <li className="pl-1 flex items-start gap-2" {...props}>
+      <input
+        type="checkbox"
+        className="mt-1 accent-primary cursor-pointer"
+        checked={checked}
+        onChange={() => taskList.onToggle(index)}
+      />
+      <span className={checked ? 'line-through text-muted-foreground' : ''}>{children}</span>
+    </li>
+  );
+}
+
+/**
+ * Read-only checkbox from the Markdown; interactive lists render their own in ListItem
+ */
+function TaskCheckbox({ node, ...props }: ComponentProps<'input'> & ExtraProps) {
+  const taskList = useContext(TaskListContext);
+  if (taskList) return null;
+  return <input className="mt-1 accent-primary" {...props} />;
+}
+
+const components: Components = {
+  // Headings
+  h1: ({ node, ...props }) => <h2 className="text-2xl font-serif font-bold mt-2 mb-4 first:mt-0 text-foreground" {...props} />,
+  h2: ({ node, ...props }) => <h3 className="text-lg font-semibold mt-5 mb-2 first:mt-0 text-foreground" {...props} />,
+  h3: ({ node, ...props }) => <h4 className="text-base font-semibold mt-4 mb-2 first:mt-0 text-foreground" {...props} />,
+  h4: ({ node, ...props }) => <h5 className="text-sm font-semibold mt-4 mb-1 first:mt-0 text-foreground" {...props} />,
+
+  // Blocks
+  p: ({ node, ...props }) => <p className="mt-3 first:mt-0" {...props} />,
+  hr: ({ node, ...props }) => <hr className="border-border my-6" {...props} />,
+  blockquote: ({ node, ...props }) => (
+    <blockquote className="border-l-2 border-primary/50 pl-4 italic text-muted-foreground my-4" {...props} />
+  ),
+  ul: ({ node, className, ...props }) => (
+    <ul
+      className={cn('mt-2 ml-5 space-y-1 text-foreground/80', className?.includes('contains-task-list') ? 'ml-1 list-none' : 'list-disc')}
+      {...props}
+    />
+  ),
+  ol: ({ node, ...props }) => <ol className="mt-2 ml-5 space-y-1 list-decimal text-foreground/80" {...props} />,
+  li: ListItem,
+  input: TaskCheckbox,
+
+  // Code
+  pre: ({ node, ...props }) => (
+    <pre className="mt-3 p-3 rounded-md bg-muted/20 border border-border overflow-x-auto text-xs font-mono" {...props} />
+  ),
+  code: ({ node, className, ...props }) => (
+    <code className={cn('font-mono text-[0.85em] rounded bg-muted/20 px-1 py-0.5 [pre_&]:bg-transparent [pre_&]:p-0', className)} {...props} />
+  ),
+
+  // Tables
+  table: ({ node, ...props }) => (
+    <div className="mt-3 overflow-x-auto">
+      <table className="w-full text-sm border-collapse" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="border-b border-border px-2 py-1.5 text-left font-semibold text-foreground" {...props} />,
+  td: ({ node, ...props }) => <td className="border-b border-border/50 px-2 py-1.5 text-foreground/80" {...props} />,
+
+  // Inline
+  strong: ({ node, ...props }) => <strong className="font-semibold text-foreground" {...props} />,
+  em: ({ node, ...props }) => <em className="italic" {...props} />,
+  a: ({ node, ...props }) => (
+    <a className="text-primary underline underline-offset-2 hover:text-primary/80" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  img: ({ node, alt, ...props }) => <img alt={alt ?? ''} className="mt-3 max-w-full rounded-md" loading="lazy" {...props} />,
+};
+
+export function Markdown({ content, className, tasks }: MarkdownProps) {
+  const taskList = useMemo<TaskListContextValue | null>(() => {
+    if (!tasks) return null;
+    const indexByLine = new Map(parseTasks(content).map((task, index) => [task.line, index]));
+    return { ...tasks, indexByLine };
+  }, [content, tasks]);
+
+  return (
+    <div className={cn('text-sm leading-relaxed text-foreground/90', className)}>
+      <TaskListContext.Provider value={taskList}>
+        <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+          {content}
+        </ReactMarkdown>
+      </TaskListContext.Provider>
+    </div>
+  );
+}
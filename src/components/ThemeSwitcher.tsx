@@ -0,0 +1,48 @@
+import { useTheme } from "next-themes";
+import { Monitor, Moon, Sun } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const THEMES = [
+  { value: 'light', label: 'Light', icon: Sun },
+  { value: 'dark', label: 'Dark', icon: Moon },
+  { value: 'system', label: 'System', icon: Monitor },
+];
+
+/**
+ * Light / dark / system theme picker. "System" follows the OS setting
+ * and is the default; the choice is remembered by next-themes.
+ */
+export function ThemeSwitcher() {
+  const { theme, resolvedTheme, setTheme } = useTheme();
+  const Icon = resolvedTheme === 'dark' ? Moon : Sun;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          title="Theme"
+          aria-label="Theme"
+          className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors flex-shrink-0"
+        >
+          <Icon className="w-3.5 h-3.5" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="min-w-32">
+        <DropdownMenuRadioGroup value={theme} onValueChange={setTheme}>
+          {THEMES.map(({ value, label, icon: ItemIcon }) => (
+            <DropdownMenuRadioItem key={value} value={value} className="gap-2 text-xs">
+              <ItemIcon className="w-3.5 h-3.5 text-muted-foreground" />
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
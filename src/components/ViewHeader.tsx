@@ -0,0 +1,68 @@
+import { Link } from "react-router-dom";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ViewHeaderProps {
+  title: string;
+  subtitle?: string;
+  backTo: string; // the view one level up (e.g. the month grid)
+  backLabel: string;
+  prevTo: string;
+  prevLabel: string; // accessible label, e.g. "Previous week"
+  nextTo: string;
+  nextLabel: string;
+  className?: string; // width of the content row, e.g. "max-w-2xl"
+}
+
+/**
+ * Sticky header for the secondary views (agenda, overview, week, day):
+ * a link back up to the parent view, and previous/next around the title
+ */
+export function ViewHeader({
+  title,
+  subtitle,
+  backTo,
+  backLabel,
+  prevTo,
+  prevLabel,
+  nextTo,
+  nextLabel,
+  className,
+}: ViewHeaderProps) {
+  return (
+    <header className="sticky top-0 z-40 bg-background/80 backdrop-blur-md border-b border-border">
+      <div className={cn('max-w-6xl mx-auto px-4 py-3 flex items-center justify-between gap-2', className)}>
+        <Link
+          to={backTo}
+          className="w-24 px-2 py-1.5 rounded-md text-xs font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors flex items-center gap-1.5"
+        >
+          <CalendarDays className="w-3.5 h-3.5 flex-shrink-0" />
+          {backLabel}
+        </Link>
+        <div className="flex items-center gap-1 min-w-0">
+          <Link
+            to={prevTo}
+            className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors flex-shrink-0"
+            aria-label={prevLabel}
+            title={prevLabel}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Link>
+          <div className="text-center min-w-0">
+            <h1 className="text-lg font-serif font-bold text-foreground leading-tight">{title}</h1>
+            {subtitle && <p className="text-xs text-muted-foreground truncate">{subtitle}</p>}
+          </div>
+          <Link
+            to={nextTo}
+            className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors flex-shrink-0"
+            aria-label={nextLabel}
+            title={nextLabel}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Link>
+        </div>
+        <div className="w-24" />
+      </div>
+    </header>
+  );
+}
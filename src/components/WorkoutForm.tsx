@@ -0,0 +1,209 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { dateStringSchema } from "@/data/eventSchema";
+import { WORKOUT_SPORTS, Workout } from "@/data/workouts";
+import { SportDot } from "@/components/WorkoutList";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+/**
+ * HELPER: A number field that may be left empty
+ */
+function optionalNumber(min: number, max: number, message: string) {
+  return z.string().trim().refine(value => {
+    if (value === '') return true;
+    const number = Number(value);
+    return Number.isFinite(number) && number >= min && number <= max;
+  }, message);
+}
+
+const workoutFormSchema = z.object({
+  date: dateStringSchema,
+  sport: z.enum(['run', 'swim', 'bike', 'strength', 'other']),
+  durationMinutes: z.coerce.number().min(1, 'At least 1 minute').max(1440, 'At most 24 hours'), // imports keep seconds as decimals
+  distanceKm: optionalNumber(0, 1000, 'Between 0 and 1000 km'),
+  elevationM: optionalNumber(0, 20000, 'Between 0 and 20000 m'),
+  rpe: optionalNumber(1, 10, 'From 1 to 10'),
+  notes: z.string(),
+});
+
+type WorkoutFormFields = Required<z.infer<typeof workoutFormSchema>>;
+
+export type WorkoutFormValues = Omit<Workout, 'id'>;
+
+function toFormFields(workout: WorkoutFormValues): WorkoutFormFields {
+  return {
+    date: workout.date,
+    sport: workout.sport,
+    durationMinutes: workout.durationMinutes,
+    distanceKm: workout.distanceKm?.toString() ?? '',
+    elevationM: workout.elevationM?.toString() ?? '',
+    rpe: workout.rpe?.toString() ?? '',
+    notes: workout.notes ?? '',
+  };
+}
+
+function toWorkoutValues(fields: WorkoutFormFields): WorkoutFormValues {
+  const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+  return {
+    date: fields.date,
+    sport: fields.sport,
+    durationMinutes: fields.durationMinutes,
+    distanceKm: toNumber(fields.distanceKm),
+    elevationM: toNumber(fields.elevationM),
+    rpe: fields.rpe === '' ? undefined : Math.round(Number(fields.rpe)),
+    notes: fields.notes.trim() || undefined,
+  };
+}
+
+interface WorkoutFormProps {
+  workout: WorkoutFormValues; // an existing workout, or defaults for a new one
+  submitLabel: string;
+  onSubmit: (values: WorkoutFormValues) => void;
+  onCancel: () => void;
+}
+
+export function WorkoutForm({ workout, submitLabel, onSubmit, onCancel }: WorkoutFormProps) {
+  const form = useForm<WorkoutFormFields>({
+    resolver: zodResolver(workoutFormSchema),
+    defaultValues: toFormFields(workout),
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(fields => onSubmit(toWorkoutValues(fields)))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="sport"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sport</FormLabel>
+              <FormControl>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={field.value}
+                  // Clicking the pressed item would deselect it; a sport is required
+                  onValueChange={value => value && field.onChange(value)}
+                  className="flex-wrap justify-start"
+                >
+                  {WORKOUT_SPORTS.map(sport => (
+                    <ToggleGroupItem key={sport.id} value={sport.id} className="h-7 px-2 text-xs gap-1.5">
+                      <SportDot sport={sport.id} />
+                      {sport.label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-3">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="durationMinutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Duration (min)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={1} max={1440} step="any" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <FormField
+            control={form.control}
+            name="distanceKm"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Distance (km)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step="0.01" placeholder="—" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="elevationM"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Elevation (m)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} placeholder="—" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="rpe"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>RPE (1-10)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={1} max={10} placeholder="—" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="How did it feel?" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit">{submitLabel}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
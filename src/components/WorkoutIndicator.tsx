@@ -0,0 +1,47 @@
+import { Check, Plus } from "lucide-react";
+
+interface WorkoutIndicatorProps {
+  logged: number; // sessions logged on the day
+  planned: number; // single-day events planned on the day
+  onClick: () => void;
+}
+
+/**
+ * Actual-vs-planned badge in a month cell, e.g. "✓ 1/2".
+ * Days without a logged session show a log button on hover instead.
+ */
+export function WorkoutIndicator({ logged, planned, onClick }: WorkoutIndicatorProps) {
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation(); // the cell itself opens the new-event editor
+    onClick();
+  };
+
+  if (logged === 0) {
+    return (
+      <button
+        onClick={handleClick}
+        title="Log workout"
+        aria-label="Log workout"
+        className="-mt-0.5 -mr-1 p-0.5 rounded-sm text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 hover:text-foreground hover:bg-muted/50 transition-opacity"
+      >
+        <Plus className="w-2.5 h-2.5 md:w-3 md:h-3" />
+      </button>
+    );
+  }
+
+  const isComplete = logged >= planned;
+  const label = planned > 0 ? `${logged} logged of ${planned} planned` : `${logged} logged`;
+
+  return (
+    <button
+      onClick={handleClick}
+      title={label}
+      aria-label={`Training log: ${label}`}
+      className={`-mt-0.5 -mr-1 px-0.5 rounded-sm flex items-center gap-px text-[7px] md:text-[9px] font-mono leading-none transition-colors hover:bg-muted/50
+        ${isComplete ? 'text-primary font-semibold' : 'text-muted-foreground'}`}
+    >
+      <Check className="w-2 h-2 md:w-2.5 md:h-2.5" />
+      {planned > 0 ? `${logged}/${planned}` : logged}
+    </button>
+  );
+}
@@ -0,0 +1,80 @@
+import { format } from "date-fns";
+import { Pencil, Trash2 } from "lucide-react";
+import { parseDateString } from "@/data/events";
+import { Workout, WorkoutSport, formatWorkoutStats, getSportColor, getSportLabel } from "@/data/workouts";
+
+/**
+ * Colored dot for a sport, muted for "other"
+ */
+export function SportDot({ sport }: { sport: WorkoutSport }) {
+  const color = getSportColor(sport);
+  return (
+    <span
+      className="w-2 h-2 rounded-full flex-shrink-0"
+      style={{ backgroundColor: color ? `hsl(${color})` : 'hsl(var(--muted-foreground))' }}
+    />
+  );
+}
+
+interface WorkoutListProps {
+  workouts: Workout[];
+  showDates?: boolean; // for lists spanning several days, e.g. a phase
+  onEdit?: (workout: Workout) => void;
+  onDelete?: (workout: Workout) => void;
+}
+
+/**
+ * Logged sessions, one row each: sport, stats, RPE and notes
+ */
+export function WorkoutList({ workouts, showDates = false, onEdit, onDelete }: WorkoutListProps) {
+  return (
+    <ul className="space-y-1.5">
+      {workouts.map(workout => (
+        <li key={workout.id} className="group flex items-start gap-2 rounded-md border border-border/40 bg-background/40 px-2.5 py-2">
+          <span className="mt-1">
+            <SportDot sport={workout.sport} />
+          </span>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-baseline gap-2 text-sm">
+              {showDates && (
+                <span className="flex-shrink-0 text-xs font-mono text-muted-foreground">
+                  {format(parseDateString(workout.date), 'EEE MMM d')}
+                </span>
+              )}
+              <span className="font-medium text-foreground">{getSportLabel(workout.sport)}</span>
+              <span className="text-xs font-mono text-muted-foreground truncate">{formatWorkoutStats(workout, true)}</span>
+              {workout.rpe && (
+                <span className="ml-auto flex-shrink-0 text-[10px] font-mono text-muted-foreground" title="Rate of perceived exertion">
+                  RPE {workout.rpe}
+                </span>
+              )}
+            </div>
+            {workout.notes && <p className="mt-0.5 text-xs text-muted-foreground whitespace-pre-line">{workout.notes}</p>}
+          </div>
+          {(onEdit || onDelete) && (
+            <div className="flex items-center flex-shrink-0">
+              {onEdit && (
+                <button
+                  onClick={() => onEdit(workout)}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                  aria-label="Edit workout"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(workout)}
+                  className="p-1 rounded text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                  aria-label="Delete workout"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Plus, X } from "lucide-react";
+import { CalendarEvent, formatDateString } from "@/data/events";
+import { WORKOUT_SPORTS, Workout, WorkoutSport, formatWorkoutStats, getWorkoutTotals } from "@/data/workouts";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useWorkoutMutations, useWorkouts } from "@/hooks/use-workouts";
+import { getSingleDayEventsForDate } from "@/lib/monthLayout";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import { formatEventTime } from "@/lib/time";
+import { WorkoutForm, WorkoutFormValues } from "@/components/WorkoutForm";
+import { WorkoutList } from "@/components/WorkoutList";
+import { Button } from "@/components/ui/button";
+
+interface WorkoutLogModalProps {
+  date: Date;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+/**
+ * HELPER: The sport a new workout most likely is, from the day's plan
+ */
+function guessSport(planned: CalendarEvent[]): WorkoutSport {
+  const sports = WORKOUT_SPORTS.map(sport => sport.id);
+  const tag = planned.flatMap(event => event.tags ?? []).find(tag => sports.includes(tag as WorkoutSport));
+  return (tag as WorkoutSport | undefined) ?? 'run';
+}
+
+/**
+ * Training log for one day, opened from a month cell: the day's planned
+ * events, the sessions logged so far, and a form to log or edit one.
+ */
+export function WorkoutLogModal({ date, isOpen, onClose }: WorkoutLogModalProps) {
+  const dateStr = formatDateString(date);
+  const workouts = useWorkouts().filter(workout => workout.date === dateStr);
+  const { logWorkout, updateWorkout, deleteWorkout } = useWorkoutMutations();
+  const planned = getSingleDayEventsForDate(date);
+  const eventColors = useEventColors();
+  // null: just the list; 'new': logging a session; a workout: editing it
+  const [editing, setEditing] = useState<Workout | 'new' | null>(workouts.length === 0 ? 'new' : null);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = '';
+    };
+  }, [isOpen, onClose]);
+
+  const handleSubmit = (values: WorkoutFormValues) => {
+    if (editing === 'new') {
+      logWorkout(values);
+    } else if (editing) {
+      updateWorkout({ ...editing, ...values }); // keeps what the form doesn't edit, like imported heart rate
+    }
+    setEditing(null);
+  };
+
+  const handleCancel = () => {
+    if (workouts.length === 0) {
+      onClose();
+      return;
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (workout: Workout) => {
+    deleteWorkout(workout.id);
+    toast('Workout deleted', {
+      action: { label: 'Undo', onClick: () => updateWorkout(workout) },
+    });
+  };
+
+  // Close on click outside
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const totals = getWorkoutTotals(workouts);
+  const newWorkout: WorkoutFormValues = {
+    date: dateStr,
+    sport: guessSport(planned),
+    durationMinutes: DEFAULT_DURATION_MINUTES,
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      onClick={handleBackdropClick}
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-foreground/20 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-card rounded-xl shadow-xl max-w-lg w-full max-h-[80vh] overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <header className="sticky top-0 bg-card border-b border-border px-6 py-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-serif font-semibold text-foreground">
+              Training Log
+            </h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              {format(date, 'EEEE, MMMM d, yyyy')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-muted/50 transition-colors text-muted-foreground hover:text-foreground"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </header>
+
+        {/* Content */}
+        <div className="overflow-y-auto max-h-[calc(80vh-100px)] p-6 space-y-5">
+          <section>
+            <h4 className="text-xs font-mono uppercase tracking-wider text-muted-foreground/70 mb-2">
+              Planned
+            </h4>
+            {planned.length > 0 ? (
+              <ul className="space-y-1">
+                {planned.map(event => (
+                  <li key={getOccurrenceKey(event)} className="flex items-center gap-2 text-sm text-foreground">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: eventColors(event.color).solid }} />
+                    <span className="truncate">{event.title}</span>
+                    {formatEventTime(event) && (
+                      <span className="ml-auto flex-shrink-0 text-xs font-mono text-muted-foreground">{formatEventTime(event)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing planned.</p>
+            )}
+          </section>
+
+          <section>
+            <h4 className="flex items-baseline justify-between gap-2 text-xs font-mono uppercase tracking-wider text-muted-foreground/70 mb-2">
+              Logged
+              {workouts.length > 0 && <span className="normal-case tracking-normal">{formatWorkoutStats(totals)}</span>}
+            </h4>
+            {editing ? (
+              <WorkoutForm
+                key={editing === 'new' ? 'new' : editing.id}
+                workout={editing === 'new' ? newWorkout : editing}
+                submitLabel={editing === 'new' ? 'Log workout' : 'Save changes'}
+                onSubmit={handleSubmit}
+                onCancel={handleCancel}
+              />
+            ) : (
+              <div className="space-y-3">
+                <WorkoutList workouts={workouts} onEdit={setEditing} onDelete={handleDelete} />
+                <Button variant="outline" size="sm" onClick={() => setEditing('new')} className="gap-1.5">
+                  <Plus className="w-3.5 h-3.5" />
+                  Log workout
+                </Button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
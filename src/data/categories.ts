@@ -0,0 +1,74 @@
+/**
+ * EVENT CATEGORIES
+ * ================
+ *
+ * Categories are the well-known tags: an event tagged `swim` is a swim
+ * event. Each has a default color, used for new events and for event
+ * files that leave `color` out. Other tags are free-form and work the
+ * same way in filters.
+ *
+ * FILTERS:
+ * The month view can show only events with some tags ("only swim") or
+ * hide them ("hide recovery"). The filter lives in the URL as
+ * ?only=swim,run or ?hide=recovery (see lib/routes.ts).
+ *
+ * Used by the event files loader (and so by vite.config.ts), so this
+ * module must not use the "@/" path alias.
+ */
+
+export interface EventCategory {
+  id: string; // the tag, e.g. "swim"
+  label: string;
+  color: string; // default HSL color
+}
+
+export const CATEGORIES: EventCategory[] = [
+  { id: 'run', label: 'Run', color: '200 98% 39%' }, // Primary blue
+  { id: 'swim', label: 'Swim', color: '190 80% 45%' }, // Cyan
+  { id: 'bike', label: 'Bike', color: '25 95% 53%' }, // Orange
+  { id: 'strength', label: 'Strength', color: '215 24% 40%' }, // Steel blue
+  { id: 'race', label: 'Race', color: '0 72% 50%' }, // Red
+  { id: 'recovery', label: 'Recovery', color: '160 60% 45%' }, // Teal
+  { id: 'reflection', label: 'Reflection', color: '270 50% 50%' }, // Purple
+];
+
+export type EventFilterMode = 'only' | 'hide';
+
+export interface EventFilter {
+  mode: EventFilterMode;
+  tags: string[]; // never empty; no filter is null
+}
+
+/**
+ * HELPER: The category for a tag, if it is one
+ */
+export function getCategory(tag: string): EventCategory | undefined {
+  return CATEGORIES.find(category => category.id === tag);
+}
+
+/**
+ * HELPER: The default color of the first category among the tags, if any
+ */
+export function getCategoryColor(tags: string[] | undefined): string | undefined {
+  return tags?.map(getCategory).find(category => category)?.color;
+}
+
+/**
+ * HELPER: Whether an event passes a filter; everything passes no filter
+ */
+export function matchesFilter(event: { tags?: string[] }, filter: EventFilter | null | undefined): boolean {
+  if (!filter) return true;
+  const hasTag = filter.tags.some(tag => event.tags?.includes(tag));
+  return filter.mode === 'only' ? hasTag : !hasTag;
+}
+
+/**
+ * The tags a filter bar offers: every category, then other tags in use,
+ * alphabetically
+ */
+export function getFilterTags(tagLists: (string[] | undefined)[]): { id: string; label: string; color?: string }[] {
+  const others = [...new Set(tagLists.flatMap(tags => tags ?? []))]
+    .filter(tag => !getCategory(tag))
+    .sort((a, b) => a.localeCompare(b));
+  return [...CATEGORIES, ...others.map(tag => ({ id: tag, label: tag }))];
+}
@@ -0,0 +1,173 @@
+/**
+ * EVENT FILES
+ * ===========
+ *
+ * Parses and validates the Markdown event files in src/content/events.
+ *
+ * Each file holds one event: frontmatter for the fields, the Markdown
+ * body as `details`. Problems are reported as EventFileError with the
+ * file path and field name, e.g.
+ *
+ *   src/content/events/first-ultra.md: "start" must be a YYYY-MM-DD date (got "2026-10-1")
+ *
+ * Shared by the runtime loader (events.ts) and the build-time check in
+ * vite.config.ts, so this module must not use the "@/" path alias.
+ */
+
+import { z } from "zod";
+import { FrontmatterError, parseFrontmatter } from "../lib/frontmatter";
+import {
+  dateStringSchema,
+  describeIssue,
+  hasUniqueGoalIds,
+  hslColorSchema,
+  isEndTimeBeforeStart,
+  timeStringSchema,
+  timeZoneSchema,
+} from "./eventSchema";
+import { getCategoryColor } from "./categories";
+import { EventGoal, parseGoal } from "./goals";
+
+export const EVENT_CONTENT_DIR = 'src/content/events';
+
+const eventFrontmatterSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must be lowercase letters, digits and dashes').optional(),
+    title: z.string().min(1, 'must not be empty'),
+    start: dateStringSchema,
+    end: dateStringSchema.optional(),
+    startTime: timeStringSchema.optional(),
+    endTime: timeStringSchema.optional(),
+    timeZone: timeZoneSchema.optional(),
+    color: hslColorSchema.optional(),
+    tags: z.array(z.string().min(1)).optional(),
+    goals: z.array(z.string().refine(text => parseGoal(text) !== null, 'must be like "40 km per week" or "12 sessions"')).optional(),
+    draft: z.boolean().optional(),
+  })
+  .strict()
+  .refine(data => !data.end || data.end >= data.start, {
+    message: 'is before the start date',
+    path: ['end'],
+  })
+  .refine(data => !!data.color || !!getCategoryColor(data.tags), {
+    message: 'is required unless a tag is a category (run, swim, ...)',
+    path: ['color'],
+  })
+  .refine(data => !data.endTime || !!data.startTime, {
+    message: 'needs a start time',
+    path: ['endTime'],
+  })
+  .refine(data => !isEndTimeBeforeStart(data), {
+    message: 'is before the start time',
+    path: ['endTime'],
+  })
+  .refine(data => hasUniqueGoalIds(data.goals?.flatMap(text => parseGoal(text) ?? [])), {
+    message: 'has two goals with the same metric and period',
+    path: ['goals'],
+  });
+
+/**
+ * Event data read from a file. Structurally a CalendarEvent; declared
+ * here so the Vite config can use this module without the app's types.
+ */
+export interface EventFileData {
+  id: string;
+  title: string;
+  start: string;
+  end: string;
+  color: string;
+  details: string;
+  startTime?: string;
+  endTime?: string;
+  timeZone?: string;
+  tags?: string[];
+  goals?: EventGoal[];
+}
+
+export class EventFileError extends Error {
+  file: string;
+  field: string | null;
+
+  constructor(file: string, field: string | null, message: string) {
+    super(`${file}: ${field ? `"${field}" ` : ''}${message}`);
+    this.name = 'EventFileError';
+    this.file = file;
+    this.field = field;
+  }
+}
+
+/**
+ * HELPER: "src/content/events/first-ultra.md" -> "first-ultra"
+ */
+function fileBaseName(file: string): string {
+  return file.split('/').pop()!.replace(/\.md$/, '');
+}
+
+/**
+ * Parse one event file. Returns null for drafts (`draft: true`).
+ */
+export function parseEventFile(file: string, source: string): EventFileData | null {
+  let parsed: ReturnType<typeof parseFrontmatter>;
+  try {
+    parsed = parseFrontmatter(source);
+  } catch (error) {
+    if (error instanceof FrontmatterError) throw new EventFileError(file, null, error.message);
+    throw error;
+  }
+
+  if (Object.keys(parsed.data).length === 0) {
+    throw new EventFileError(file, null, 'is missing its frontmatter block');
+  }
+
+  const result = eventFrontmatterSchema.safeParse(parsed.data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    if (issue.code === 'unrecognized_keys') {
+      throw new EventFileError(file, issue.keys[0], 'is not a known event field');
+    }
+    const { field, message } = describeIssue(issue);
+    const received = field ? parsed.data[field] : undefined;
+    const suffix = typeof received === 'string' && issue.code !== 'invalid_type' ? ` (got "${received}")` : '';
+    throw new EventFileError(file, field, `${message}${suffix}`);
+  }
+
+  const data = result.data;
+  if (data.draft) return null;
+
+  return {
+    id: data.id ?? fileBaseName(file),
+    title: data.title,
+    start: data.start,
+    end: data.end ?? data.start,
+    color: data.color ?? getCategoryColor(data.tags)!,
+    details: parsed.body,
+    ...(data.startTime ? { startTime: data.startTime } : {}),
+    ...(data.endTime ? { endTime: data.endTime } : {}),
+    ...(data.timeZone ? { timeZone: data.timeZone } : {}),
+    ...(data.tags ? { tags: data.tags } : {}),
+    ...(data.goals ? { goals: data.goals.map(text => parseGoal(text)!) } : {}),
+  };
+}
+
+/**
+ * Parse a set of event files keyed by path, skipping drafts and
+ * rejecting ids used by more than one file. Results are sorted by start date.
+ */
+export function parseEventFiles(files: Record<string, string>): EventFileData[] {
+  const events: EventFileData[] = [];
+  const fileById = new Map<string, string>();
+
+  Object.entries(files).forEach(([file, source]) => {
+    const event = parseEventFile(file, source);
+    if (!event) return;
+
+    const other = fileById.get(event.id);
+    if (other) {
+      throw new EventFileError(file, 'id', `"${event.id}" is already used by ${other}`);
+    }
+    fileById.set(event.id, file);
+    events.push(event);
+  });
+
+  return events.sort((a, b) => a.start.localeCompare(b.start));
+}
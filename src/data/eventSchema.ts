@@ -0,0 +1,194 @@
+/**
+ * EVENT SCHEMA
+ * ============
+ *
+ * zod schemas for CalendarEvent data, plus a validation pass that
+ * checks a whole event list (including duplicate ids) and reports
+ * every problem instead of stopping at the first.
+ *
+ * Used by the event files loader (and so by vite.config.ts), the
+ * editor form and the store's load step, so this module must not use
+ * the "@/" path alias.
+ */
+
+import { z } from "zod";
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const HSL_PATTERN = /^(\d{1,3}(?:\.\d+)?) (\d{1,3}(?:\.\d+)?)% (\d{1,3}(?:\.\d+)?)%$/;
+
+/**
+ * HELPER: True for a real calendar date (rejects 2026-02-30)
+ */
+function isRealDate(value: string): boolean {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * HELPER: True for "H S% L%" with hue 0-360 and saturation/lightness 0-100
+ */
+function isValidHsl(value: string): boolean {
+  const match = HSL_PATTERN.exec(value);
+  if (!match) return false;
+  const [hue, saturation, lightness] = match.slice(1).map(Number);
+  return hue <= 360 && saturation <= 100 && lightness <= 100;
+}
+
+/**
+ * HELPER: True for an IANA time zone the runtime knows, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const dateStringSchema = z
+  .string()
+  .regex(DATE_PATTERN, 'must be a YYYY-MM-DD date')
+  .refine(isRealDate, 'is not a real calendar date');
+
+export const hslColorSchema = z
+  .string()
+  .refine(isValidHsl, 'must be an HSL triple like "200 98% 39%" (hue 0-360, percentages 0-100)');
+
+export const timeStringSchema = z
+  .string()
+  .regex(TIME_PATTERN, 'must be an HH:MM time (00:00-23:59)');
+
+export const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, 'must be an IANA time zone like "Europe/Berlin"');
+
+export const recurrenceRuleSchema = z.object({
+  freq: z.enum(['daily', 'weekly', 'monthly']),
+  interval: z.number().int().min(1).optional(),
+  byDay: z.array(z.string().regex(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/, 'must be a weekday code like "TU" or "-1FR"')).optional(),
+  count: z.number().int().min(1).optional(),
+  until: dateStringSchema.optional(),
+  exdates: z.array(dateStringSchema).optional(),
+});
+
+export const eventGoalSchema = z.object({
+  id: z.string().min(1, 'must not be empty'),
+  metric: z.string().trim().min(1, 'must not be empty'),
+  target: z.number().positive('must be more than 0'),
+  period: z.enum(['day', 'week', 'month', 'event']),
+});
+
+/**
+ * HELPER: True when no two goals share an id (progress is kept per id)
+ */
+export function hasUniqueGoalIds(goals: { id?: string }[] | undefined): boolean {
+  const ids = (goals ?? []).map(goal => goal.id);
+  return new Set(ids).size === ids.length;
+}
+
+export const calendarEventSchema = z
+  .object({
+    id: z.string().min(1, 'must not be empty'),
+    title: z.string().trim().min(1, 'must not be empty'),
+    start: dateStringSchema,
+    end: dateStringSchema,
+    color: hslColorSchema,
+    details: z.string(),
+    startTime: timeStringSchema.optional(),
+    endTime: timeStringSchema.optional(),
+    timeZone: timeZoneSchema.optional(),
+    tags: z.array(z.string().min(1)).optional(),
+    goals: z.array(eventGoalSchema).optional(),
+    recurrence: recurrenceRuleSchema.optional(),
+  })
+  .refine(event => event.end >= event.start, {
+    message: 'is before the start date',
+    path: ['end'],
+  })
+  .refine(event => event.endTime === undefined || event.startTime !== undefined, {
+    message: 'needs a start time',
+    path: ['endTime'],
+  })
+  .refine(event => !isEndTimeBeforeStart(event), {
+    message: 'is before the start time',
+    path: ['endTime'],
+  })
+  .refine(event => hasUniqueGoalIds(event.goals), {
+    message: 'has two goals with the same metric and period',
+    path: ['goals'],
+  });
+
+/**
+ * HELPER: True when a single-day event ends before it starts.
+ * Shared with the event files schema, which has the same fields.
+ */
+export function isEndTimeBeforeStart(event: { start?: string; end?: string; startTime?: string; endTime?: string }): boolean {
+  const sameDay = event.end === undefined || event.end === event.start;
+  return sameDay && !!event.startTime && !!event.endTime && event.endTime < event.startTime;
+}
+
+export interface EventProblem {
+  eventId: string;
+  title: string;
+  field: string | null;
+  message: string;
+}
+
+/**
+ * HELPER: Turn a zod issue into a readable "field message" pair
+ */
+export function describeIssue(issue: z.ZodIssue): { field: string | null; message: string } {
+  const field = issue.path.length > 0 ? issue.path.join('.') : null;
+  if (issue.code === 'invalid_type') {
+    return { field, message: issue.received === 'undefined' ? 'is required' : `must be a ${issue.expected}` };
+  }
+  return { field, message: issue.message };
+}
+
+/**
+ * Problems with a single event, empty when it is valid
+ */
+export function validateEvent(event: unknown): EventProblem[] {
+  const result = calendarEventSchema.safeParse(event);
+  if (result.success) return [];
+
+  const record = (event ?? {}) as Record<string, unknown>;
+  const eventId = typeof record.id === 'string' ? record.id : '(no id)';
+  const title = typeof record.title === 'string' && record.title.trim() ? record.title : eventId;
+
+  return result.error.issues.map(issue => ({ eventId, title, ...describeIssue(issue) }));
+}
+
+/**
+ * Validate a list of events. Invalid events and later duplicates of an
+ * id are left out of `valid` and described in `problems`.
+ */
+export function validateEvents<T extends { id: string }>(events: T[]): { valid: T[]; problems: EventProblem[] } {
+  const valid: T[] = [];
+  const problems: EventProblem[] = [];
+  const seenIds = new Set<string>();
+
+  events.forEach(event => {
+    const eventProblems = validateEvent(event);
+    if (eventProblems.length > 0) {
+      problems.push(...eventProblems);
+      return;
+    }
+    if (seenIds.has(event.id)) {
+      problems.push({
+        eventId: event.id,
+        title: (event as { title?: string }).title ?? event.id,
+        field: 'id',
+        message: `"${event.id}" is used by more than one event`,
+      });
+      return;
+    }
+    seenIds.add(event.id);
+    valid.push(event);
+  });
+
+  return { valid, problems };
+}
@@ -0,0 +1,163 @@
+/**
+ * EVENT STORE
+ * ===========
+ *
+ * Single source of truth for calendar events at runtime.
+ * Filled from persisted storage on startup (see persistence.ts); every
+ * create, edit and delete made in the app goes through the functions
+ * below, and all calendar lookups (getEventsForDate) read from here.
+ *
+ * This module is synchronous and in-memory only. Writing changes to
+ * storage is handled by the mutations in hooks/use-events.ts.
+ */
+
+import { CalendarEvent, compareEventTimes, formatDateString } from "./events";
+import { EventFilter, matchesFilter } from "./categories";
+import { expandOccurrences } from "@/lib/recurrence";
+
+type Listener = (events: CalendarEvent[]) => void;
+
+const listeners: Listener[] = [];
+
+let memoryState: CalendarEvent[] = [];
+
+function setState(next: CalendarEvent[]) {
+  memoryState = next;
+  listeners.forEach(listener => {
+    listener(memoryState);
+  });
+}
+
+/**
+ * Turn a title into a URL-friendly id, suffixed if it is already taken
+ */
+function generateEventId(title: string): string {
+  const base = title
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'event';
+
+  const taken = new Set(memoryState.map(event => event.id));
+  let id = base;
+  let suffix = 2;
+  while (taken.has(id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
+
+export function getEvents(): CalendarEvent[] {
+  return memoryState;
+}
+
+/**
+ * Replace the whole event list, e.g. after loading from storage
+ * or rolling back a failed save
+ */
+export function replaceEvents(events: CalendarEvent[]) {
+  setState(events);
+}
+
+export function subscribe(listener: Listener): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+export function createEvent(input: Omit<CalendarEvent, 'id'>): CalendarEvent {
+  const event: CalendarEvent = { ...input, id: generateEventId(input.title) };
+  setState([...memoryState, event]);
+  return event;
+}
+
+export function updateEvent(id: string, changes: Partial<Omit<CalendarEvent, 'id'>>): CalendarEvent | undefined {
+  let updated: CalendarEvent | undefined;
+  setState(memoryState.map(event => {
+    if (event.id !== id) return event;
+    updated = { ...event, ...changes };
+    return updated;
+  }));
+  return updated;
+}
+
+/**
+ * Insert or replace events by id, keeping their ids (used by imports)
+ */
+export function upsertEvents(incoming: CalendarEvent[]) {
+  const byId = new Map(incoming.map(event => [event.id, event]));
+  const kept = memoryState.map(event => byId.get(event.id) ?? event);
+  const existingIds = new Set(memoryState.map(event => event.id));
+  setState([...kept, ...incoming.filter(event => !existingIds.has(event.id))]);
+}
+
+export function deleteEvent(id: string) {
+  setState(memoryState.filter(event => event.id !== id));
+}
+
+/**
+ * Occurrences of a recurring event overlapping a calendar year.
+ * Cached per event object, so edits (which replace the object) invalidate it.
+ */
+const occurrenceCache = new WeakMap<CalendarEvent, Map<number, CalendarEvent[]>>();
+
+function getOccurrencesForYear(event: CalendarEvent, year: number): CalendarEvent[] {
+  let byYear = occurrenceCache.get(event);
+  if (!byYear) {
+    byYear = new Map();
+    occurrenceCache.set(event, byYear);
+  }
+  if (!byYear.has(year)) {
+    byYear.set(year, expandOccurrences(event, `${year}-01-01`, `${year}-12-31`));
+  }
+  return byYear.get(year)!;
+}
+
+/**
+ * HELPER: Get events for a specific date
+ * Checks if the date falls within any event's start-end range;
+ * recurring events contribute the occurrence covering the date.
+ * With a filter, only events passing it are returned.
+ */
+export function getEventsForDate(date: Date, filter?: EventFilter | null): CalendarEvent[] {
+  const dateStr = formatDateString(date);
+
+  return memoryState.flatMap(event => {
+    if (!matchesFilter(event, filter)) return [];
+    if (!event.recurrence) {
+      return dateStr >= event.start && dateStr <= event.end ? [event] : [];
+    }
+    return getOccurrencesForYear(event, date.getFullYear())
+      .filter(occurrence => dateStr >= occurrence.start && dateStr <= occurrence.end);
+  });
+}
+
+/**
+ * HELPER: Events with at least one day in the given year.
+ * Recurring series are included whole if any occurrence falls in the year.
+ */
+export function getEventsForYear(year: number): CalendarEvent[] {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+
+  return memoryState.filter(event => {
+    if (!event.recurrence) {
+      return event.end >= yearStart && event.start <= yearEnd;
+    }
+    return getOccurrencesForYear(event, year).length > 0;
+  });
+}
+
+/**
+ * HELPER: Events and occurrences overlapping a date range, by start date and time.
+ * Recurring series contribute each occurrence separately.
+ */
+export function getEventsInRange(rangeStart: string, rangeEnd: string): CalendarEvent[] {
+  return memoryState
+    .flatMap(event => expandOccurrences(event, rangeStart, rangeEnd))
+    .sort((a, b) => a.start.localeCompare(b.start) || compareEventTimes(a, b) || a.end.localeCompare(b.end));
+}
@@ -2,19 +2,60 @@
  * EVENTS DATA FILE
  * ================
  * 
- * Add or edit events here. Each event has:
- * - id: Unique identifier
- * - title: Event name
- * - start: Start date (YYYY-MM-DD format)
- * - end: End date (YYYY-MM-DD format) - same as start for single-day events
- * - color: HSL color string for the event marker
- * - details: Markdown-formatted description
+ * Events live as Markdown files in src/content/events, one per event.
+ * Frontmatter holds the fields, the body is the details:
+ *
+ *   ---
+ *   id: first-ultra            # optional, defaults to the file name
+ *   title: First 100km Ultra
+ *   start: 2026-10-17          # YYYY-MM-DD
+ *   end: 2026-10-17            # optional, defaults to start
+ *   startTime: "05:00"         # optional, HH:MM; without it the event is all-day
+ *   endTime: "17:30"           # optional, HH:MM on the end date
+ *   timeZone: Europe/Berlin    # optional, IANA zone the times are in
+ *   color: "45 93% 47%"        # HSL color; optional when a tag is a category
+ *   tags: [race, run]          # optional; see categories.ts
+ *   goals: [100 km per month]  # optional; see goals.ts
+ *   draft: true                # optional, hides the event
+ *   ---
+ *
+ *   **The Main Event** (Markdown details)
  * 
  * MULTI-DAY EVENTS:
  * When start !== end, the event spans multiple days.
  * The calendar will show the event marker on each day within the range.
+ *
+ * TIMED EVENTS:
+ * Events are all-day unless they have a `startTime`. Dates and times
+ * are wall-clock values in `timeZone`, or in the viewer's own zone when
+ * it is left out, so a 05:00 race start abroad stays on its local day
+ * and is shown as 05:00 with the zone's name (see lib/time.ts).
+ *
+ * RECURRING EVENTS:
+ * An optional `recurrence` rule repeats the start-end span (RRULE
+ * semantics: daily/weekly/monthly, interval, BYDAY, COUNT/UNTIL, EXDATE).
+ * See lib/recurrence.ts for how occurrences are expanded.
+ *
+ * RUNTIME EDITS:
+ * These files only seed the event store on first run (see
+ * persistence.ts). Events created, edited or deleted in the app are
+ * stored on the device instead.
  */
 
+import { parseEventFiles } from "./eventFile";
+import type { EventGoal } from "./goals";
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval?: number;   // Repeat every N days/weeks/months (default 1)
+  byDay?: string[];    // Weekdays: "MO".."SU"; monthly also takes ordinals like "2TU" or "-1FR"
+  count?: number;      // Stop after this many occurrences
+  until?: string;      // YYYY-MM-DD, last day an occurrence may start
+  exdates?: string[];  // YYYY-MM-DD occurrence starts to skip
+}
+
 export interface CalendarEvent {
   id: string;
   title: string;
@@ -22,188 +63,29 @@ export interface CalendarEvent {
   end: string;   // YYYY-MM-DD
   color: string; // HSL color
   details: string; // Markdown content
+  startTime?: string; // HH:MM, on the start date; absent for all-day events
+  endTime?: string;   // HH:MM, on the end date; needs startTime
+  timeZone?: string;  // IANA zone for the dates and times, e.g. "Europe/Berlin"; defaults to the viewer's
+  tags?: string[];
+  goals?: EventGoal[]; // numeric targets with progress tracked in the app
+  recurrence?: RecurrenceRule;
+  occurrenceStart?: string; // Set only on expanded occurrences: the series date this instance belongs to
 }
 
-export const events: CalendarEvent[] = [
-//   {
-//     id: "misogi-challenge",
-//     title: "Misogi Challenge",
-//     start: "2026-03-01",
-//     end: "2026-06-30",
-//     color: "0 72% 50%", // Red
-//     details: `**100km Monthly Running Target**
-
-// - Complete 100km of running each month
-// - Mix of trail runs, intervals, and long steady runs
-// - Progressive distance increase week over week
-
-// **Strength Training**
-// - 3x per week full body sessions
-// - Focus on compound movements
-// - Olympic lifting progression
-
-// **Swimming**
-// - 2x per week pool sessions
-// - Work on stroke efficiency
-// - Build to 2km continuous swim
-
-// **Mental Resilience Focus**
-// - Cold exposure protocol
-// - Meditation practice
-// - Weekly reflection journaling`
-//   },
-//   {
-//     id: "ultra-prep",
-//     title: "Ultra Marathon Prep",
-//     start: "2026-07-01",
-//     end: "2026-09-30",
-//     color: "200 98% 39%", // Primary blue
-//     details: `**Building the Engine**
-
-// Peak training phase for the autumn ultra marathon.
-
-// - Weekly mileage: 80-120km
-// - Back-to-back long runs on weekends
-// - Nutrition strategy testing
-// - Altitude training camps
-
-// **Key Sessions**
-// - Tuesday: Speed work
-// - Thursday: Tempo runs
-// - Saturday: Long trail run
-// - Sunday: Recovery run + strength`
-//   },
-//   {
-//     id: "first-ultra",
-//     title: "First 100km Ultra",
-//     start: "2026-10-17",
-//     end: "2026-10-17",
-//     color: "45 93% 47%", // Gold
-//     details: `**The Main Event**
-
-// First 100km ultramarathon attempt.
-
-// - Location: Mountain trails
-// - Elevation gain: 4,500m
-// - Target time: Sub-20 hours
-// - Crew and pacers arranged
-
-// *"The goal is not to finish fast, but to finish transformed."*`
-//   },
-//   {
-//     id: "recovery-block",
-//     title: "Active Recovery Block",
-//     start: "2026-10-18",
-//     end: "2026-11-15",
-//     color: "160 60% 45%", // Teal
-//     details: `**Post-Ultra Recovery**
-
-// Structured recovery period to rebuild.
-
-// - Week 1-2: Complete rest, walking only
-// - Week 3-4: Easy swimming and yoga
-// - Light strength work resumes
-// - Focus on sleep and nutrition
-
-// **Recovery Protocols**
-// - Massage therapy weekly
-// - Compression and elevation
-// - Anti-inflammatory nutrition`
-//   },
-//   {
-//     id: "year-reflection",
-//     title: "Year End Reflection",
-//     start: "2026-12-20",
-//     end: "2026-12-31",
-//     color: "270 50% 50%", // Purple
-//     details: `**Closing the Year**
-
-// Time for deep reflection and planning.
-
-// - Review all training logs
-// - Analyze what worked, what didn't
-// - Set intentions for 2027
-// - Gratitude practice
-
-// **Planning Sessions**
-// - December 20-23: Review
-// - December 24-26: Rest
-// - December 27-31: 2027 planning`
-//   },
-//   {
-//     id: "base-building",
-//     title: "Base Building Phase",
-//     start: "2026-01-05",
-//     end: "2026-02-28",
-//     color: "215 24% 40%", // Steel blue
-//     details: `**Foundation Work**
-
-// Building aerobic base and movement quality.
-
-// - Zone 2 training emphasis
-// - Running: 40-60km per week
-// - Swimming: 4-6km per week
-// - Strength: Movement patterns
-
-// **Weekly Structure**
-// - Monday: Strength + swim
-// - Tuesday: Easy run
-// - Wednesday: Swim intervals
-// - Thursday: Tempo run
-// - Friday: Rest or yoga
-// - Saturday: Long run
-// - Sunday: Active recovery`
-//   },
-//   {
-//     id: "new-year",
-//     title: "New Year Commitment",
-//     start: "2026-01-01",
-//     end: "2026-01-01",
-//     color: "200 98% 39%", // Primary
-//     details: `**The Year Begins**
-
-// Setting the foundation for the Year of the Hybrid Athlete.
-
-// - Morning cold plunge
-// - First training session
-// - Vision board creation
-// - Commitment ceremony
-
-// *"Every journey begins with a single step."*`
-//   },
-//   {
-//     id: "swim-focus",
-//     title: "Swim Focus Week",
-//     start: "2026-02-09",
-//     end: "2026-02-15",
-//     color: "190 80% 45%", // Cyan
-//     details: `**Intensive Swim Block**
-
-// Dedicated week to improve swimming technique.
-
-// - Daily pool sessions
-// - Video analysis
-// - Stroke correction drills
-// - Open water simulation
-
-// **Goals**
-// - Reduce 100m time by 5 seconds
-// - Improve breathing pattern
-// - Build water confidence`
-//   }
-];
-
 /**
- * HELPER: Get events for a specific date
- * Checks if the date falls within any event's start-end range
+ * Bundled events, one Markdown file each under src/content/events.
+ * Files are collected at build time; a malformed file fails the build
+ * (see vite.config.ts) and throws here in development.
  */
-export function getEventsForDate(date: Date): CalendarEvent[] {
-  const dateStr = formatDateString(date);
-  
-  return events.filter(event => {
-    return dateStr >= event.start && dateStr <= event.end;
-  });
-}
+const eventFiles = import.meta.glob<string>('/src/content/events/*.md', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+export const events: CalendarEvent[] = parseEventFiles(
+  Object.fromEntries(Object.entries(eventFiles).map(([path, source]) => [path.replace(/^\//, ''), source]))
+);
 
 /**
  * HELPER: Format date to YYYY-MM-DD string
@@ -215,6 +97,16 @@ export function formatDateString(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * HELPER: Parse a YYYY-MM-DD string as a local date
+ * (new Date("YYYY-MM-DD") parses as UTC midnight, which is the
+ * previous day west of Greenwich)
+ */
+export function parseDateString(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
 /**
  * HELPER: Check if an event is multi-day
  */
@@ -222,6 +114,21 @@ export function isMultiDayEvent(event: CalendarEvent): boolean {
   return event.start !== event.end;
 }
 
+/**
+ * HELPER: Check if an event has a start time (otherwise it is all-day)
+ */
+export function isTimedEvent(event: CalendarEvent): boolean {
+  return event.startTime !== undefined;
+}
+
+/**
+ * HELPER: Order events on the same day: all-day first, then by start time
+ */
+export function compareEventTimes(a: CalendarEvent, b: CalendarEvent): number {
+  if (isTimedEvent(a) !== isTimedEvent(b)) return isTimedEvent(a) ? 1 : -1;
+  return (a.startTime ?? '').localeCompare(b.startTime ?? '') || (a.endTime ?? '').localeCompare(b.endTime ?? '');
+}
+
 /**
  * HELPER: Get the position of a date within a multi-day event
  * Returns: 'start' | 'middle' | 'end' | 'single'
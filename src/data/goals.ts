@@ -0,0 +1,83 @@
+/**
+ * EVENT GOALS
+ * ===========
+ *
+ * A goal puts a number on an event: "40 km run per week" during a base
+ * phase, "100 km per month" for a challenge. Each goal has
+ *
+ * - metric: what is counted, free text with its unit ("km", "km swim", "sessions")
+ * - target: the amount to reach in each period
+ * - period: day, week or month, or the whole event
+ *
+ * Progress is recorded in the app as entries against a goal (see
+ * persistence.ts) and projected in lib/goalProgress.ts.
+ *
+ * TEXT FORMAT:
+ * Event files write goals as short sentences:
+ *
+ *   goals:
+ *     - 40 km run per week
+ *     - 100 km per month
+ *     - 12 sessions          # no "per": the whole event
+ *
+ * Used by the event files loader (and so by vite.config.ts), so this
+ * module must not use the "@/" path alias.
+ */
+
+export type GoalPeriod = 'day' | 'week' | 'month' | 'event';
+
+export interface EventGoal {
+  id: string; // stable key for progress entries, e.g. "km-run-week"
+  metric: string;
+  target: number;
+  period: GoalPeriod;
+}
+
+export const GOAL_PERIODS: { id: GoalPeriod; label: string }[] = [
+  { id: 'day', label: 'per day' },
+  { id: 'week', label: 'per week' },
+  { id: 'month', label: 'per month' },
+  { id: 'event', label: 'in total' },
+];
+
+/**
+ * Progress toward a goal, recorded in the app
+ */
+export interface GoalEntry {
+  id: string;
+  eventKey: string; // occurrence key of the event, so each repeat tracks its own progress
+  goalId: string;
+  date: string; // YYYY-MM-DD the progress was made on
+  amount: number; // in the goal's metric
+}
+
+const GOAL_PATTERN = /^(\d+(?:\.\d+)?)\s+(.+?)(?:\s+per\s+(day|week|month|event))?$/i;
+
+/**
+ * HELPER: Default goal id from its metric and period, e.g. "km-run-week"
+ */
+export function getGoalId(metric: string, period: GoalPeriod): string {
+  const slug = metric.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'goal';
+  return `${slug}-${period}`;
+}
+
+/**
+ * Parse "40 km run per week"; null when the text isn't a goal
+ */
+export function parseGoal(text: string): EventGoal | null {
+  const match = GOAL_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const target = Number(match[1]);
+  if (target <= 0) return null;
+  const metric = match[2].trim();
+  const period = (match[3]?.toLowerCase() ?? 'event') as GoalPeriod;
+  return { id: getGoalId(metric, period), metric, target, period };
+}
+
+/**
+ * "40 km run per week" or "12 sessions"; parseGoal reads it back
+ */
+export function formatGoal(goal: Pick<EventGoal, 'metric' | 'target' | 'period'>): string {
+  const amount = `${goal.target} ${goal.metric}`;
+  return goal.period === 'event' ? amount : `${amount} per ${goal.period}`;
+}
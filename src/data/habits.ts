@@ -0,0 +1,102 @@
+/**
+ * HABITS
+ * ======
+ *
+ * Daily habits the year is built on ("Meditation practice", "Cold
+ * exposure protocol"), defined by the user and checked in once a day:
+ *
+ *   { id: "meditation-k2x9", name: "Meditation practice",
+ *     color: "270 50% 50%", checkIns: ["2026-03-01", "2026-03-02"] }
+ *
+ * Habits are kept on the device (see persistence.ts); none are bundled.
+ *
+ * STREAKS:
+ * A streak is a run of consecutive checked-in days. The current streak
+ * ends today, or yesterday while today is still open, so it doesn't
+ * reset until a whole day has been missed.
+ */
+
+import { addDays } from "date-fns";
+import { formatDateString, parseDateString } from "./events";
+
+export interface Habit {
+  id: string;
+  name: string;
+  color: string; // HSL, like event colors
+  checkIns: string[]; // YYYY-MM-DD, oldest first
+}
+
+export interface HabitStreaks {
+  current: number;
+  longest: number;
+}
+
+// Colors offered for new habits, in the order they are handed out
+export const HABIT_COLORS = [
+  '270 50% 50%', // Purple
+  '160 60% 45%', // Teal
+  '25 95% 53%', // Orange
+  '200 98% 39%', // Blue
+  '340 75% 55%', // Pink
+  '45 93% 47%', // Amber
+];
+
+// Offered when no habits exist yet, from the year's manifestation
+export const HABIT_SUGGESTIONS = ['Train consistently', 'Meditation practice', 'Cold exposure protocol'];
+
+/**
+ * HELPER: Unique id for a new habit, readable in storage
+ */
+export function generateHabitId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 24) || 'habit';
+  return `${slug}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * HELPER: First of HABIT_COLORS not used yet, cycling when all are taken
+ */
+export function getNextHabitColor(habits: Habit[]): string {
+  return HABIT_COLORS.find(color => !habits.some(habit => habit.color === color))
+    ?? HABIT_COLORS[habits.length % HABIT_COLORS.length];
+}
+
+export function isCheckedIn(habit: Habit, date: string): boolean {
+  return habit.checkIns.includes(date);
+}
+
+/**
+ * The habit with a day checked in, or un-checked when it already was
+ */
+export function toggleCheckIn(habit: Habit, date: string): Habit {
+  const checkIns = isCheckedIn(habit, date)
+    ? habit.checkIns.filter(checkIn => checkIn !== date)
+    : [...habit.checkIns, date].sort();
+  return { ...habit, checkIns };
+}
+
+/**
+ * Current and longest streak of a habit, as of `today`
+ */
+export function getHabitStreaks(habit: Habit, today: Date = new Date()): HabitStreaks {
+  const days = new Set(habit.checkIns);
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  [...days].sort().forEach(date => {
+    run = previous && formatDateString(addDays(parseDateString(previous), 1)) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  // Count back from today, or from yesterday while today is still open
+  let cursor = today;
+  if (!days.has(formatDateString(cursor))) cursor = addDays(cursor, -1);
+  let current = 0;
+  while (days.has(formatDateString(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, longest };
+}
@@ -0,0 +1,527 @@
+/**
+ * EVENT PERSISTENCE
+ * =================
+ *
+ * Keeps calendar events on the user's device so edits survive a reload.
+ *
+ * STORAGE:
+ * IndexedDB is used when available. Browsers that block it (some
+ * private modes, embedded webviews) fall back to localStorage.
+ *
+ * UPGRADES ACROSS TABS:
+ * Bumping DB_VERSION needs every other connection closed. Each open
+ * connection closes itself when a newer version asks (onversionchange)
+ * and asks for a reload; a tab opening the newer version waits while
+ * older tabs are still open instead of giving up. A blocked or refused
+ * upgrade never falls back to localStorage: the data is still in
+ * IndexedDB, and a second copy would silently split from it.
+ *
+ * FIRST RUN:
+ * When nothing has been stored yet, the bundled `events` array is
+ * written once as the starting data. From then on the stored copy
+ * owns the data and the bundled array is no longer read.
+ *
+ * SCHEMA VERSIONING:
+ * Every stored copy records the EVENTS_SCHEMA_VERSION it was written
+ * with. When CalendarEvent gains or changes fields, bump the version
+ * and add a migration below; older data is upgraded in place on load
+ * instead of being discarded.
+ *
+ * CHECKLIST PROGRESS:
+ * Ticked checklist items (see lib/checklist.ts) live in their own
+ * store next to the events, keyed by occurrence.
+ *
+ * TRAINING LOG:
+ * Logged workouts (see workouts.ts) have a store of their own too,
+ * keyed by workout id. They are never seeded.
+ *
+ * GOAL PROGRESS:
+ * Entries recorded against event goals (see goals.ts) are stored the
+ * same way, keyed by entry id.
+ *
+ * HABITS:
+ * User-defined habits (see habits.ts) are stored whole, check-ins
+ * included, keyed by habit id.
+ */
+
+import { toast } from "sonner";
+import { CalendarEvent, events as seedEvents } from "./events";
+import type { ChecklistState } from "@/lib/checklist";
+import type { Workout } from "./workouts";
+import type { GoalEntry } from "./goals";
+import type { Habit } from "./habits";
+
+export const EVENTS_SCHEMA_VERSION = 1;
+
+/**
+ * MIGRATIONS
+ * Each entry upgrades a stored event from `version - 1` to `version`.
+ * Keep them in ascending order and never edit one that has shipped.
+ */
+interface Migration {
+  version: number;
+  migrate: (event: Record<string, unknown>) => Record<string, unknown>;
+}
+
+const MIGRATIONS: Migration[] = [];
+
+const DB_NAME = 'year-focus';
+const DB_VERSION = 5; // object store layout, independent of EVENTS_SCHEMA_VERSION
+const EVENTS_STORE = 'events';
+const META_STORE = 'meta';
+const CHECKLISTS_STORE = 'checklists';
+const WORKOUTS_STORE = 'workouts';
+const GOAL_ENTRIES_STORE = 'goalEntries';
+const HABITS_STORE = 'habits';
+const SCHEMA_VERSION_KEY = 'eventsSchemaVersion';
+const LOCAL_STORAGE_KEY = 'year-focus:events';
+const CHECKLISTS_LOCAL_STORAGE_KEY = 'year-focus:checklists';
+const WORKOUTS_LOCAL_STORAGE_KEY = 'year-focus:workouts';
+const GOAL_ENTRIES_LOCAL_STORAGE_KEY = 'year-focus:goal-entries';
+const HABITS_LOCAL_STORAGE_KEY = 'year-focus:habits';
+
+interface PersistedEvents {
+  version: number;
+  events: Record<string, unknown>[];
+}
+
+interface EventBackend {
+  read(): Promise<PersistedEvents | null>; // null when nothing has been stored yet
+  write(data: PersistedEvents): Promise<void>;
+  put(event: CalendarEvent): Promise<void>;
+  putMany(events: CalendarEvent[]): Promise<void>;
+  remove(id: string): Promise<void>;
+  readChecklists(): Promise<ChecklistState>;
+  putChecklist(key: string, done: number[]): Promise<void>;
+  readWorkouts(): Promise<Workout[]>;
+  putWorkout(workout: Workout): Promise<void>;
+  putWorkouts(workouts: Workout[]): Promise<void>;
+  removeWorkout(id: string): Promise<void>;
+  readGoalEntries(): Promise<GoalEntry[]>;
+  putGoalEntry(entry: GoalEntry): Promise<void>;
+  removeGoalEntry(id: string): Promise<void>;
+  readHabits(): Promise<Habit[]>;
+  putHabit(habit: Habit): Promise<void>;
+  removeHabit(id: string): Promise<void>;
+}
+
+/**
+ * HELPER: Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      if (e.oldVersion < 1) {
+        db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+        db.createObjectStore(META_STORE);
+      }
+      if (e.oldVersion < 2) {
+        db.createObjectStore(CHECKLISTS_STORE);
+      }
+      if (e.oldVersion < 3) {
+        db.createObjectStore(WORKOUTS_STORE, { keyPath: 'id' });
+      }
+      if (e.oldVersion < 4) {
+        db.createObjectStore(GOAL_ENTRIES_STORE, { keyPath: 'id' });
+      }
+      if (e.oldVersion < 5) {
+        db.createObjectStore(HABITS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the database
+      db.onversionchange = () => {
+        db.close();
+        toast('Year Focus was updated in another tab', {
+          id: 'idb-version-change',
+          description: 'Reload this tab to keep saving changes.',
+          duration: Infinity,
+          action: { label: 'Reload', onClick: () => window.location.reload() },
+        });
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // Keep waiting: the upgrade goes ahead once the other tabs close their connection
+    request.onblocked = () => {
+      toast('Close other Year Focus tabs to finish updating', {
+        id: 'idb-blocked',
+        description: 'Your calendar will load as soon as they are closed.',
+        duration: Infinity,
+      });
+    };
+  });
+}
+
+/**
+ * HELPER: Whether opening failed because the data belongs to a newer
+ * version of the app, rather than because IndexedDB can't be used here
+ */
+function isVersionError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'VersionError';
+}
+
+function createIndexedDbBackend(db: IDBDatabase): EventBackend {
+  return {
+    async read() {
+      const tx = db.transaction([EVENTS_STORE, META_STORE], 'readonly');
+      const [version, events] = await Promise.all([
+        promisify(tx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+        promisify(tx.objectStore(EVENTS_STORE).getAll()),
+      ]);
+      if (version === undefined) return null;
+      return { version, events };
+    },
+    async write(data) {
+      const tx = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+      const store = tx.objectStore(EVENTS_STORE);
+      store.clear();
+      data.events.forEach(event => store.put(event));
+      tx.objectStore(META_STORE).put(data.version, SCHEMA_VERSION_KEY);
+      await transactionDone(tx);
+    },
+    async put(event) {
+      const tx = db.transaction(EVENTS_STORE, 'readwrite');
+      tx.objectStore(EVENTS_STORE).put(event);
+      await transactionDone(tx);
+    },
+    async putMany(events) {
+      const tx = db.transaction(EVENTS_STORE, 'readwrite');
+      const store = tx.objectStore(EVENTS_STORE);
+      events.forEach(event => store.put(event));
+      await transactionDone(tx);
+    },
+    async remove(id) {
+      const tx = db.transaction(EVENTS_STORE, 'readwrite');
+      tx.objectStore(EVENTS_STORE).delete(id);
+      await transactionDone(tx);
+    },
+    async readChecklists() {
+      const tx = db.transaction(CHECKLISTS_STORE, 'readonly');
+      const store = tx.objectStore(CHECKLISTS_STORE);
+      const [keys, values] = await Promise.all([
+        promisify(store.getAllKeys()),
+        promisify(store.getAll()),
+      ]);
+      return Object.fromEntries(keys.map((key, index) => [String(key), values[index] as number[]]));
+    },
+    async putChecklist(key, done) {
+      const tx = db.transaction(CHECKLISTS_STORE, 'readwrite');
+      tx.objectStore(CHECKLISTS_STORE).put(done, key);
+      await transactionDone(tx);
+    },
+    async readWorkouts() {
+      const tx = db.transaction(WORKOUTS_STORE, 'readonly');
+      return promisify(tx.objectStore(WORKOUTS_STORE).getAll());
+    },
+    async putWorkout(workout) {
+      const tx = db.transaction(WORKOUTS_STORE, 'readwrite');
+      tx.objectStore(WORKOUTS_STORE).put(workout);
+      await transactionDone(tx);
+    },
+    async putWorkouts(workouts) {
+      const tx = db.transaction(WORKOUTS_STORE, 'readwrite');
+      const store = tx.objectStore(WORKOUTS_STORE);
+      workouts.forEach(workout => store.put(workout));
+      await transactionDone(tx);
+    },
+    async removeWorkout(id) {
+      const tx = db.transaction(WORKOUTS_STORE, 'readwrite');
+      tx.objectStore(WORKOUTS_STORE).delete(id);
+      await transactionDone(tx);
+    },
+    async readGoalEntries() {
+      const tx = db.transaction(GOAL_ENTRIES_STORE, 'readonly');
+      return promisify(tx.objectStore(GOAL_ENTRIES_STORE).getAll());
+    },
+    async putGoalEntry(entry) {
+      const tx = db.transaction(GOAL_ENTRIES_STORE, 'readwrite');
+      tx.objectStore(GOAL_ENTRIES_STORE).put(entry);
+      await transactionDone(tx);
+    },
+    async removeGoalEntry(id) {
+      const tx = db.transaction(GOAL_ENTRIES_STORE, 'readwrite');
+      tx.objectStore(GOAL_ENTRIES_STORE).delete(id);
+      await transactionDone(tx);
+    },
+    async readHabits() {
+      const tx = db.transaction(HABITS_STORE, 'readonly');
+      return promisify(tx.objectStore(HABITS_STORE).getAll());
+    },
+    async putHabit(habit) {
+      const tx = db.transaction(HABITS_STORE, 'readwrite');
+      tx.objectStore(HABITS_STORE).put(habit);
+      await transactionDone(tx);
+    },
+    async removeHabit(id) {
+      const tx = db.transaction(HABITS_STORE, 'readwrite');
+      tx.objectStore(HABITS_STORE).delete(id);
+      await transactionDone(tx);
+    },
+  };
+}
+
+/**
+ * Every read-modify-write below stays synchronous: with an await between
+ * reading a blob and writing it back, saves started together would all
+ * read the same old copy and only the last one would be kept.
+ */
+function createLocalStorageBackend(): EventBackend {
+  const readEvents = (): PersistedEvents | null => {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PersistedEvents) : null;
+  };
+  const writeEvents = (data: PersistedEvents) => {
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data));
+  };
+  const putEvents = (events: CalendarEvent[]) => {
+    const data = readEvents() ?? { version: EVENTS_SCHEMA_VERSION, events: [] };
+    events.forEach(event => {
+      const index = data.events.findIndex(e => e.id === event.id);
+      if (index > -1) {
+        data.events[index] = { ...event };
+      } else {
+        data.events.push({ ...event });
+      }
+    });
+    writeEvents(data);
+  };
+  const readWorkouts = (): Workout[] => {
+    const raw = window.localStorage.getItem(WORKOUTS_LOCAL_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Workout[]) : [];
+  };
+  const writeWorkouts = (workouts: Workout[]) => {
+    window.localStorage.setItem(WORKOUTS_LOCAL_STORAGE_KEY, JSON.stringify(workouts));
+  };
+  const putWorkouts = (workouts: Workout[]) => {
+    const ids = new Set(workouts.map(workout => workout.id));
+    writeWorkouts([...readWorkouts().filter(w => !ids.has(w.id)), ...workouts]);
+  };
+  const readGoalEntries = (): GoalEntry[] => {
+    const raw = window.localStorage.getItem(GOAL_ENTRIES_LOCAL_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as GoalEntry[]) : [];
+  };
+  const writeGoalEntries = (entries: GoalEntry[]) => {
+    window.localStorage.setItem(GOAL_ENTRIES_LOCAL_STORAGE_KEY, JSON.stringify(entries));
+  };
+  const readHabits = (): Habit[] => {
+    const raw = window.localStorage.getItem(HABITS_LOCAL_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Habit[]) : [];
+  };
+  const writeHabits = (habits: Habit[]) => {
+    window.localStorage.setItem(HABITS_LOCAL_STORAGE_KEY, JSON.stringify(habits));
+  };
+
+  return {
+    async read() {
+      return readEvents();
+    },
+    async write(data) {
+      writeEvents(data);
+    },
+    async put(event) {
+      putEvents([event]);
+    },
+    async putMany(events) {
+      putEvents(events);
+    },
+    async remove(id) {
+      const data = readEvents();
+      if (!data) return;
+      writeEvents({ ...data, events: data.events.filter(e => e.id !== id) });
+    },
+    async readChecklists() {
+      const raw = window.localStorage.getItem(CHECKLISTS_LOCAL_STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as ChecklistState) : {};
+    },
+    async putChecklist(key, done) {
+      const raw = window.localStorage.getItem(CHECKLISTS_LOCAL_STORAGE_KEY);
+      const checklists = raw ? (JSON.parse(raw) as ChecklistState) : {};
+      window.localStorage.setItem(CHECKLISTS_LOCAL_STORAGE_KEY, JSON.stringify({ ...checklists, [key]: done }));
+    },
+    async readWorkouts() {
+      return readWorkouts();
+    },
+    async putWorkout(workout) {
+      putWorkouts([workout]);
+    },
+    async putWorkouts(workouts) {
+      putWorkouts(workouts);
+    },
+    async removeWorkout(id) {
+      writeWorkouts(readWorkouts().filter(w => w.id !== id));
+    },
+    async readGoalEntries() {
+      return readGoalEntries();
+    },
+    async putGoalEntry(entry) {
+      writeGoalEntries([...readGoalEntries().filter(e => e.id !== entry.id), entry]);
+    },
+    async removeGoalEntry(id) {
+      writeGoalEntries(readGoalEntries().filter(e => e.id !== id));
+    },
+    async readHabits() {
+      return readHabits();
+    },
+    async putHabit(habit) {
+      const habits = readHabits();
+      const index = habits.findIndex(h => h.id === habit.id);
+      writeHabits(index > -1 ? habits.map(h => (h.id === habit.id ? habit : h)) : [...habits, habit]);
+    },
+    async removeHabit(id) {
+      writeHabits(readHabits().filter(h => h.id !== id));
+    },
+  };
+}
+
+let backendPromise: Promise<EventBackend> | null = null;
+
+function getBackend(): Promise<EventBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof indexedDB !== 'undefined') {
+        try {
+          const db = await openDatabase();
+          toast.dismiss('idb-blocked');
+          return createIndexedDbBackend(db);
+        } catch (error) {
+          if (isVersionError(error)) {
+            backendPromise = null; // retry after a reload rather than split the data
+            throw new Error('Your data was saved by a newer version of Year Focus. Reload to continue.');
+          }
+          console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+        }
+      }
+      return createLocalStorageBackend();
+    })();
+  }
+  return backendPromise;
+}
+
+/**
+ * Upgrade stored events written by an older schema version
+ */
+function migrateEvents(events: Record<string, unknown>[], fromVersion: number): Record<string, unknown>[] {
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => current.map(migration.migrate), events);
+}
+
+/**
+ * Load persisted events, seeding from the bundled array on first run
+ * and migrating data written by older versions of the app.
+ */
+export async function loadEvents(): Promise<CalendarEvent[]> {
+  const backend = await getBackend();
+  const stored = await backend.read();
+
+  if (!stored) {
+    await backend.write({ version: EVENTS_SCHEMA_VERSION, events: seedEvents.map(event => ({ ...event })) });
+    return [...seedEvents];
+  }
+
+  if (stored.version < EVENTS_SCHEMA_VERSION) {
+    const migrated = migrateEvents(stored.events, stored.version);
+    await backend.write({ version: EVENTS_SCHEMA_VERSION, events: migrated });
+    return migrated as unknown as CalendarEvent[];
+  }
+
+  return stored.events as unknown as CalendarEvent[];
+}
+
+export async function saveEvent(event: CalendarEvent): Promise<void> {
+  const backend = await getBackend();
+  await backend.put(event);
+}
+
+/**
+ * Save several events in one write, e.g. an import or a split series
+ */
+export async function saveEvents(events: CalendarEvent[]): Promise<void> {
+  const backend = await getBackend();
+  await backend.putMany(events);
+}
+
+export async function removeEvent(id: string): Promise<void> {
+  const backend = await getBackend();
+  await backend.remove(id);
+}
+
+export async function loadChecklists(): Promise<ChecklistState> {
+  const backend = await getBackend();
+  return backend.readChecklists();
+}
+
+export async function saveChecklist(key: string, done: number[]): Promise<void> {
+  const backend = await getBackend();
+  await backend.putChecklist(key, done);
+}
+
+export async function loadWorkouts(): Promise<Workout[]> {
+  const backend = await getBackend();
+  return backend.readWorkouts();
+}
+
+export async function saveWorkout(workout: Workout): Promise<void> {
+  const backend = await getBackend();
+  await backend.putWorkout(workout);
+}
+
+export async function saveWorkouts(workouts: Workout[]): Promise<void> {
+  const backend = await getBackend();
+  await backend.putWorkouts(workouts);
+}
+
+export async function removeWorkout(id: string): Promise<void> {
+  const backend = await getBackend();
+  await backend.removeWorkout(id);
+}
+
+export async function loadGoalEntries(): Promise<GoalEntry[]> {
+  const backend = await getBackend();
+  return backend.readGoalEntries();
+}
+
+export async function saveGoalEntry(entry: GoalEntry): Promise<void> {
+  const backend = await getBackend();
+  await backend.putGoalEntry(entry);
+}
+
+export async function removeGoalEntry(id: string): Promise<void> {
+  const backend = await getBackend();
+  await backend.removeGoalEntry(id);
+}
+
+export async function loadHabits(): Promise<Habit[]> {
+  const backend = await getBackend();
+  return backend.readHabits();
+}
+
+export async function saveHabit(habit: Habit): Promise<void> {
+  const backend = await getBackend();
+  await backend.putHabit(habit);
+}
+
+export async function removeHabit(id: string): Promise<void> {
+  const backend = await getBackend();
+  await backend.removeHabit(id);
+}
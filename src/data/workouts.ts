@@ -0,0 +1,147 @@
+/**
+ * TRAINING LOG
+ * ============
+ *
+ * The calendar's events are the plan; workouts are what actually
+ * happened. Each logged session is one Workout on one date:
+ *
+ *   { id, date: "2026-03-04", sport: "run", durationMinutes: 55,
+ *     distanceKm: 10.2, elevationM: 140, rpe: 6, notes: "Easy, legs fresh" }
+ *
+ * Workouts are entered in the app, or imported from GPX, TCX and FIT
+ * activity files (see lib/activities.ts), and kept on the device next
+ * to the events (see persistence.ts); nothing is bundled.
+ *
+ * ACTUAL VS PLANNED:
+ * A month cell compares the sessions logged on its date with the
+ * single-day events planned there. A phase (multi-day event) lists
+ * every session logged inside its date range.
+ */
+
+import { getCategory } from "./categories";
+
+export type WorkoutSport = 'run' | 'swim' | 'bike' | 'strength' | 'other';
+
+export interface Workout {
+  id: string;
+  date: string; // YYYY-MM-DD
+  sport: WorkoutSport;
+  durationMinutes: number;
+  distanceKm?: number;
+  elevationM?: number; // gain, in meters
+  rpe?: number; // rate of perceived exertion, 1 (very easy) to 10 (max)
+  avgHeartRate?: number; // bpm
+  notes?: string;
+  importId?: string; // start instant of an imported activity, so re-imports are skipped
+}
+
+export const WORKOUT_SPORTS: { id: WorkoutSport; label: string }[] = [
+  { id: 'run', label: 'Run' },
+  { id: 'bike', label: 'Bike' },
+  { id: 'swim', label: 'Swim' },
+  { id: 'strength', label: 'Strength' },
+  { id: 'other', label: 'Other' },
+];
+
+export interface WorkoutTotals {
+  count: number;
+  durationMinutes: number;
+  distanceKm: number;
+  elevationM: number;
+}
+
+/**
+ * HELPER: Display name of a sport
+ */
+export function getSportLabel(sport: WorkoutSport): string {
+  return WORKOUT_SPORTS.find(entry => entry.id === sport)?.label ?? sport;
+}
+
+/**
+ * HELPER: HSL color of a sport, shared with its event category; none for "other"
+ */
+export function getSportColor(sport: WorkoutSport): string | undefined {
+  return getCategory(sport)?.color;
+}
+
+/**
+ * HELPER: Unique id for a new workout, readable in storage
+ */
+export function generateWorkoutId(date: string): string {
+  return `${date}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Workouts keyed by date, in the order they were logged
+ */
+export function groupWorkoutsByDate(workouts: Workout[]): Map<string, Workout[]> {
+  const byDate = new Map<string, Workout[]>();
+  workouts.forEach(workout => {
+    byDate.set(workout.date, [...(byDate.get(workout.date) ?? []), workout]);
+  });
+  return byDate;
+}
+
+/**
+ * Workouts dated within start-end (inclusive, YYYY-MM-DD), oldest first
+ */
+export function getWorkoutsInRange(workouts: Workout[], start: string, end: string): Workout[] {
+  return workouts
+    .filter(workout => workout.date >= start && workout.date <= end)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Summed duration, distance and elevation of some workouts
+ */
+export function getWorkoutTotals(workouts: Workout[]): WorkoutTotals {
+  return workouts.reduce<WorkoutTotals>((totals, workout) => ({
+    count: totals.count + 1,
+    durationMinutes: totals.durationMinutes + workout.durationMinutes,
+    distanceKm: totals.distanceKm + (workout.distanceKm ?? 0),
+    elevationM: totals.elevationM + (workout.elevationM ?? 0),
+  }), { count: 0, durationMinutes: 0, distanceKm: 0, elevationM: 0 });
+}
+
+/**
+ * HELPER: "45m", "1h 05m" or "3h"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${String(rest).padStart(2, '0')}m`;
+}
+
+/**
+ * HELPER: Average pace the way each sport reads it: "5:24 /km" running,
+ * "2:05 /100m" swimming, "28.4 km/h" on the bike; null without a distance
+ */
+export function formatPace(workout: Pick<Workout, 'sport' | 'durationMinutes' | 'distanceKm'>): string | null {
+  if (!workout.distanceKm || workout.durationMinutes <= 0) return null;
+
+  if (workout.sport === 'bike') {
+    return `${(workout.distanceKm / (workout.durationMinutes / 60)).toFixed(1)} km/h`;
+  }
+  const perKm = (workout.durationMinutes * 60) / workout.distanceKm;
+  const [seconds, unit] = workout.sport === 'swim' ? [perKm / 10, '/100m'] : [perKm, '/km'];
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')} ${unit}`;
+}
+
+/**
+ * HELPER: "1h 05m · 10.2 km · 140 m↑", leaving out what wasn't recorded.
+ * With `detailed`, pace and heart rate too.
+ */
+export function formatWorkoutStats(
+  workout: Pick<Workout, 'durationMinutes' | 'distanceKm' | 'elevationM'> & Partial<Pick<Workout, 'sport' | 'avgHeartRate'>>,
+  detailed = false
+): string {
+  return [
+    formatDuration(workout.durationMinutes),
+    workout.distanceKm ? `${Number(workout.distanceKm.toFixed(1))} km` : null,
+    detailed && workout.sport ? formatPace({ ...workout, sport: workout.sport }) : null,
+    workout.elevationM ? `${Math.round(workout.elevationM)} m↑` : null,
+    detailed && workout.avgHeartRate ? `${Math.round(workout.avgHeartRate)} bpm` : null,
+  ].filter(Boolean).join(' · ');
+}
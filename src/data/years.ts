@@ -0,0 +1,133 @@
+/**
+ * YEAR CONFIG
+ * ===========
+ *
+ * Everything that makes one year of the calendar different from the
+ * next lives here, so starting a new year is a data change:
+ *
+ * - title             shown in the header and footer
+ * - tagline           the line under the title in the footer
+ * - quarterlyMantras  one per quarter (Jan–Mar, Apr–Jun, Jul–Sep, Oct–Dec),
+ *                     shown under the month name and in the Manifestation modal
+ * - manifestation     Markdown shown in the Manifestation modal
+ * - colors.accent     HSL triple used as the app's primary color
+ * - colors.palette    swatches offered in the event editor; the first is
+ *                     the default color for new events
+ * - weekStartsOn      first column of the month grid (0 = Sunday, 1 = Monday)
+ *
+ * Years without an entry still render, using DEFAULT_YEAR_CONFIG.
+ */
+
+export interface ColorPreset {
+  label: string;
+  value: string; // HSL triple, e.g. "200 98% 39%"
+}
+
+export interface YearConfig {
+  year: number;
+  title: string; // e.g. "The Year of the Hybrid Athlete"
+  tagline: string;
+  quarterlyMantras: string[]; // up to four, in quarter order
+  manifestation: string; // Markdown content
+  colors: {
+    accent: string;
+    palette: ColorPreset[];
+  };
+  weekStartsOn: 0 | 1;
+}
+
+const DEFAULT_PALETTE: ColorPreset[] = [
+  { label: 'Primary blue', value: '200 98% 39%' },
+  { label: 'Steel blue', value: '215 24% 40%' },
+  { label: 'Cyan', value: '190 80% 45%' },
+  { label: 'Teal', value: '160 60% 45%' },
+  { label: 'Gold', value: '45 93% 47%' },
+  { label: 'Red', value: '0 72% 50%' },
+  { label: 'Purple', value: '270 50% 50%' },
+];
+
+const DEFAULT_YEAR_CONFIG: Omit<YearConfig, 'year' | 'manifestation'> = {
+  title: 'Year Focus',
+  tagline: 'A life calendar reflecting yearly focus and defining challenges',
+  quarterlyMantras: [],
+  colors: {
+    accent: '200 98% 39%', // Primary blue
+    palette: DEFAULT_PALETTE,
+  },
+  weekStartsOn: 1, // Monday (ISO-8601)
+};
+
+const YEAR_CONFIGS: YearConfig[] = [
+  {
+    year: 2026,
+    title: 'The Year of the Hybrid Athlete',
+    tagline: 'A life calendar for planning the year, logging training and tracking its defining challenges',
+    quarterlyMantras: [
+      // 'Build the foundation',
+      // 'Embrace the grind',
+      // 'Peak and perform',
+      // 'Reflect and renew',
+    ],
+    colors: {
+      accent: '200 98% 39%', // Primary blue
+      palette: DEFAULT_PALETTE,
+    },
+    weekStartsOn: 1,
+    manifestation: `# 2026 Manifestation`,
+
+    // This is the year of the **Hybrid Athlete**.
+
+    // ## Core Principles
+
+    // - Train consistently
+    // - Respect recovery
+    // - Do hard things on purpose
+
+    // ## The Vision
+
+    // This year is about becoming someone who:
+
+    // - **Runs** — not away from, but toward challenge
+    // - **Swims** — through discomfort with grace
+    // - **Lifts** — themselves and others up
+    // - **Endures** — when everything says to stop
+
+    // ---
+
+    // > "The body achieves what the mind believes."
+
+    // ---
+
+    // *This is not just a year. This is a transformation.*`
+  },
+];
+
+/**
+ * HELPER: Config for a year, with neutral defaults for unplanned years
+ */
+export function getYearConfig(year: number): YearConfig {
+  return YEAR_CONFIGS.find(config => config.year === year) ?? {
+    ...DEFAULT_YEAR_CONFIG,
+    year,
+    manifestation: `# ${year} Manifestation\n\n*No focus has been set for this year yet.*`,
+  };
+}
+
+/**
+ * HELPER: Mantra for the quarter a month (0-11) falls in, if set
+ */
+export function getMantraForMonth(config: YearConfig, month: number): string | undefined {
+  return config.quarterlyMantras[Math.floor(month / 3)];
+}
+
+/**
+ * HELPER: Year to open when no year is in the URL:
+ * the current year if it has a config, otherwise the closest one that does
+ */
+export function getDefaultYear(today: Date = new Date()): number {
+  const currentYear = today.getFullYear();
+  if (YEAR_CONFIGS.length === 0) return currentYear;
+  return YEAR_CONFIGS
+    .map(config => config.year)
+    .reduce((best, year) => (Math.abs(year - currentYear) < Math.abs(best - currentYear) ? year : best));
+}
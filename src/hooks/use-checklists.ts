@@ -0,0 +1,60 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { CalendarEvent } from "@/data/events";
+import { loadChecklists, saveChecklist } from "@/data/persistence";
+import { ChecklistState } from "@/lib/checklist";
+import { getOccurrenceKey } from "@/lib/recurrence";
+
+const CHECKLISTS_QUERY_KEY = ['checklists'] as const;
+
+const EMPTY_CHECKLISTS: ChecklistState = {};
+
+/**
+ * Loads checklist progress once per session; the toggle mutation
+ * keeps the cached copy current afterwards.
+ */
+const checklistsQueryOptions = queryOptions({
+  queryKey: CHECKLISTS_QUERY_KEY,
+  queryFn: loadChecklists,
+  staleTime: Infinity,
+  gcTime: Infinity,
+});
+
+function useChecklists(): ChecklistState {
+  const { data } = useQuery(checklistsQueryOptions);
+  return data ?? EMPTY_CHECKLISTS;
+}
+
+/**
+ * Save which tasks of an event (or occurrence) are done.
+ * Applied to the cache immediately and rolled back if saving fails.
+ */
+function useChecklistMutation() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({ key, done }: { key: string; done: number[] }) => saveChecklist(key, done),
+    onMutate: ({ key, done }) => {
+      const previous = queryClient.getQueryData<ChecklistState>(CHECKLISTS_QUERY_KEY)?.[key];
+      queryClient.setQueryData<ChecklistState>(CHECKLISTS_QUERY_KEY, data => ({ ...data, [key]: done }));
+      return { previous };
+    },
+    onError: (error: Error, { key, done }, context) => {
+      // Only this checklist, and only if no later change has replaced it
+      queryClient.setQueryData<ChecklistState>(CHECKLISTS_QUERY_KEY, (data = {}) => {
+        if (data[key] !== done) return data;
+        const { [key]: _failed, ...rest } = data;
+        return context?.previous ? { ...rest, [key]: context.previous } : rest;
+      });
+      toast.error("Couldn't save your checklist", { description: error.message });
+    },
+  });
+
+  return {
+    setCompletedTasks: (event: CalendarEvent, done: number[]) =>
+      mutation.mutate({ key: getOccurrenceKey(event), done }),
+  };
+}
+
+export { checklistsQueryOptions, useChecklists, useChecklistMutation };
@@ -0,0 +1,52 @@
+import { useEffect, useSyncExternalStore } from "react";
+import type { LucideIcon } from "lucide-react";
+
+/**
+ * Actions a view offers in the command palette while it is shown,
+ * e.g. "Export" on the year calendar. The palette lists them next to
+ * its global actions.
+ */
+export interface CommandAction {
+  id: string;
+  label: string;
+  icon?: LucideIcon;
+  keywords?: string[]; // extra words the action is found by
+  run: () => void;
+}
+
+const registered = new Map<symbol, CommandAction[]>();
+const listeners = new Set<() => void>();
+let snapshot: CommandAction[] = [];
+
+function notify() {
+  snapshot = [...registered.values()].flat();
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Offer actions in the palette while the calling component is mounted.
+ * Pass a memoized array; a new array re-registers.
+ */
+export function useCommandActions(actions: CommandAction[]) {
+  useEffect(() => {
+    const key = Symbol('command-actions');
+    registered.set(key, actions);
+    notify();
+    return () => {
+      registered.delete(key);
+      notify();
+    };
+  }, [actions]);
+}
+
+/**
+ * Every action currently offered by mounted views
+ */
+export function useRegisteredCommandActions(): CommandAction[] {
+  return useSyncExternalStore(subscribe, () => snapshot);
+}
@@ -0,0 +1,19 @@
+import { useCallback } from "react";
+import { useTheme } from "next-themes";
+import { EventColors, ResolvedTheme, getEventColors } from "@/lib/colors";
+
+/**
+ * The theme being shown, with "system" resolved to light or dark
+ */
+export function useResolvedTheme(): ResolvedTheme {
+  const { resolvedTheme } = useTheme();
+  return resolvedTheme === 'dark' ? 'dark' : 'light';
+}
+
+/**
+ * Event color variants for the current theme: `eventColors(event.color).bar`
+ */
+export function useEventColors(): (color: string) => EventColors {
+  const theme = useResolvedTheme();
+  return useCallback((color: string) => getEventColors(color, theme), [theme]);
+}
@@ -0,0 +1,231 @@
+import * as React from "react";
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { addDays, differenceInCalendarDays } from "date-fns";
+
+import { CalendarEvent, formatDateString, parseDateString } from "@/data/events";
+import {
+  createEvent,
+  deleteEvent,
+  getEvents,
+  replaceEvents,
+  subscribe,
+  updateEvent,
+  upsertEvents,
+} from "@/data/eventStore";
+import { loadEvents, removeEvent, saveEvent, saveEvents } from "@/data/persistence";
+import { EventProblem, validateEvents } from "@/data/eventSchema";
+import { EditScope, excludeOccurrence, isSameRecurrence, splitSeries } from "@/lib/recurrence";
+
+const EVENTS_QUERY_KEY = ['events'] as const;
+
+interface EventsQueryData {
+  events: CalendarEvent[];
+  problems: EventProblem[]; // invalid stored events, left out of the calendar
+}
+
+/**
+ * Loads persisted events once per session, validates them and hydrates
+ * the event store with the valid ones. Mutations keep both in sync
+ * afterwards, so the query never goes stale.
+ */
+const eventsQueryOptions = queryOptions({
+  queryKey: EVENTS_QUERY_KEY,
+  queryFn: async (): Promise<EventsQueryData> => {
+    const { valid, problems } = validateEvents(await loadEvents());
+    replaceEvents(valid);
+    return { events: valid, problems };
+  },
+  staleTime: Infinity,
+  gcTime: Infinity,
+});
+
+type EventInput = Omit<CalendarEvent, 'id'>;
+
+/**
+ * Write every event touched by a store change to storage: the remaining
+ * ones in a single batch (a split series writes the original and its
+ * new part together), then the removals one at a time.
+ */
+async function persistEvents(ids: string[]) {
+  const events = getEvents();
+  const saved = events.filter(event => ids.includes(event.id));
+  await saveEvents(saved);
+  for (const id of ids.filter(id => !saved.some(event => event.id === id))) {
+    await removeEvent(id);
+  }
+}
+
+function shiftDate(dateStr: string, days: number): string {
+  return formatDateString(addDays(parseDateString(dateStr), days));
+}
+
+/**
+ * Edit one occurrence of a recurring series, the occurrence and all
+ * that follow it, or the whole series. Returns the ids it touched.
+ */
+function applyOccurrenceUpdate(occurrence: CalendarEvent, input: EventInput, scope: EditScope): string[] {
+  const series = getEvents().find(e => e.id === occurrence.id);
+  const occurrenceStart = occurrence.occurrenceStart;
+  if (!series?.recurrence || !occurrenceStart) return [];
+
+  if (scope === 'this') {
+    updateEvent(series.id, excludeOccurrence(series, occurrenceStart));
+    const created = createEvent({ ...input, recurrence: undefined });
+    return [series.id, created.id];
+  }
+
+  if (scope === 'following') {
+    const { before, followingRule } = splitSeries(series, occurrenceStart);
+    if (before) {
+      updateEvent(series.id, before);
+      // Unchanged repeat settings continue where the original series left off
+      const recurrence = isSameRecurrence(input.recurrence, series.recurrence) ? followingRule : input.recurrence;
+      const created = createEvent({ ...input, recurrence });
+      return [series.id, created.id];
+    }
+    // Splitting at the first occurrence is the same as editing all of them
+  }
+
+  // Move the series by however far this occurrence was moved
+  const shift = differenceInCalendarDays(parseDateString(input.start), parseDateString(occurrenceStart));
+  const duration = differenceInCalendarDays(parseDateString(input.end), parseDateString(input.start));
+  const start = shiftDate(series.start, shift);
+  const recurrence = input.recurrence && shift !== 0
+    ? { ...input.recurrence, exdates: input.recurrence.exdates?.map(date => shiftDate(date, shift)) }
+    : input.recurrence;
+
+  updateEvent(series.id, { ...input, start, end: shiftDate(start, duration), recurrence });
+  return [series.id];
+}
+
+/**
+ * Delete one occurrence, the occurrence and all that follow, or the whole series
+ */
+function applyOccurrenceDelete(occurrence: CalendarEvent, scope: EditScope): string[] {
+  const series = getEvents().find(e => e.id === occurrence.id);
+  const occurrenceStart = occurrence.occurrenceStart;
+  if (!series?.recurrence || !occurrenceStart) return [];
+
+  if (scope === 'this') {
+    updateEvent(series.id, excludeOccurrence(series, occurrenceStart));
+  } else if (scope === 'following') {
+    const { before } = splitSeries(series, occurrenceStart);
+    if (before) {
+      updateEvent(series.id, before);
+    } else {
+      deleteEvent(series.id);
+    }
+  } else {
+    deleteEvent(series.id);
+  }
+  return [series.id];
+}
+
+/**
+ * Subscribe a component to the event store so it re-renders on every edit.
+ */
+function useEvents() {
+  const { data, isPending, error } = useQuery(eventsQueryOptions);
+  const events = React.useSyncExternalStore(subscribe, getEvents);
+
+  return {
+    events,
+    problems: data?.problems ?? [],
+    isLoading: isPending,
+    error,
+  };
+}
+
+/**
+ * Create, edit and delete events. Changes apply to the store immediately;
+ * if writing one fails, the store is reloaded from storage.
+ */
+function useEventMutations() {
+  const queryClient = useQueryClient();
+
+  const mutationCallbacks = {
+    onMutate: () => ({ previous: getEvents() }),
+    onError: (error: Error, _variables: unknown, context: { previous: CalendarEvent[] } | undefined) => {
+      toast.error("Couldn't save your change", { description: error.message });
+      // Other changes may have been saved since this one started, so reload
+      // what storage actually holds; the snapshot is the last resort
+      loadEvents()
+        .then(stored => {
+          const { valid, problems } = validateEvents(stored);
+          replaceEvents(valid);
+          queryClient.setQueryData<EventsQueryData>(EVENTS_QUERY_KEY, { events: valid, problems });
+        })
+        .catch(() => {
+          if (context) replaceEvents(context.previous);
+        });
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<EventsQueryData>(EVENTS_QUERY_KEY, data => ({
+        problems: data?.problems ?? [],
+        events: getEvents(),
+      }));
+    },
+  };
+
+  const create = useMutation({
+    mutationFn: async (input: EventInput) => {
+      const event = createEvent(input);
+      await saveEvent(event);
+      return event;
+    },
+    ...mutationCallbacks,
+  });
+
+  const update = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Partial<Omit<CalendarEvent, 'id'>> }) => {
+      const event = updateEvent(id, changes);
+      if (event) await saveEvent(event);
+      return event;
+    },
+    ...mutationCallbacks,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      deleteEvent(id);
+      await removeEvent(id);
+    },
+    ...mutationCallbacks,
+  });
+
+  const updateSeries = useMutation({
+    mutationFn: async ({ occurrence, input, scope }: { occurrence: CalendarEvent; input: EventInput; scope: EditScope }) => {
+      await persistEvents(applyOccurrenceUpdate(occurrence, input, scope));
+    },
+    ...mutationCallbacks,
+  });
+
+  const removeFromSeries = useMutation({
+    mutationFn: async ({ occurrence, scope }: { occurrence: CalendarEvent; scope: EditScope }) => {
+      await persistEvents(applyOccurrenceDelete(occurrence, scope));
+    },
+    ...mutationCallbacks,
+  });
+
+  const importMany = useMutation({
+    mutationFn: async (events: CalendarEvent[]) => {
+      upsertEvents(events);
+      await saveEvents(events); // one write, so every previewed event is stored
+    },
+    ...mutationCallbacks,
+  });
+
+  return {
+    createEvent: create.mutate,
+    updateEvent: (id: string, changes: Partial<Omit<CalendarEvent, 'id'>>) => update.mutate({ id, changes }),
+    deleteEvent: remove.mutate,
+    updateOccurrence: (occurrence: CalendarEvent, input: EventInput, scope: EditScope) =>
+      updateSeries.mutate({ occurrence, input, scope }),
+    deleteOccurrence: (occurrence: CalendarEvent, scope: EditScope) =>
+      removeFromSeries.mutate({ occurrence, scope }),
+    importEvents: importMany.mutate,
+  };
+}
+
+export { eventsQueryOptions, useEvents, useEventMutations };
@@ -0,0 +1,78 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { CalendarEvent } from "@/data/events";
+import { GoalEntry } from "@/data/goals";
+import { loadGoalEntries, removeGoalEntry, saveGoalEntry } from "@/data/persistence";
+import { getOccurrenceKey } from "@/lib/recurrence";
+
+const GOAL_ENTRIES_QUERY_KEY = ['goalEntries'] as const;
+
+const EMPTY_GOAL_ENTRIES: GoalEntry[] = [];
+
+/**
+ * Loads goal progress once per session; the mutations below keep the
+ * cached copy current afterwards.
+ */
+const goalEntriesQueryOptions = queryOptions({
+  queryKey: GOAL_ENTRIES_QUERY_KEY,
+  queryFn: loadGoalEntries,
+  staleTime: Infinity,
+  gcTime: Infinity,
+});
+
+function useGoalEntries(): GoalEntry[] {
+  const { data } = useQuery(goalEntriesQueryOptions);
+  return data ?? EMPTY_GOAL_ENTRIES;
+}
+
+type GoalEntryChange = { type: 'add'; entry: GoalEntry } | { type: 'delete'; id: string };
+
+/**
+ * Record and remove progress toward an event's goals.
+ * Applied to the cache immediately and rolled back if saving fails.
+ */
+function useGoalEntryMutations() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (change: GoalEntryChange) =>
+      change.type === 'add' ? saveGoalEntry(change.entry) : removeGoalEntry(change.id),
+    onMutate: (change) => {
+      const previous = change.type === 'delete'
+        ? queryClient.getQueryData<GoalEntry[]>(GOAL_ENTRIES_QUERY_KEY)?.find(entry => entry.id === change.id)
+        : undefined;
+      queryClient.setQueryData<GoalEntry[]>(GOAL_ENTRIES_QUERY_KEY, (data = []) =>
+        change.type === 'add' ? [...data, change.entry] : data.filter(entry => entry.id !== change.id)
+      );
+      return { previous };
+    },
+    onError: (error: Error, change, context) => {
+      // Only this entry, so overlapping changes that saved are kept
+      queryClient.setQueryData<GoalEntry[]>(GOAL_ENTRIES_QUERY_KEY, (data = []) => {
+        if (change.type === 'add') return data.filter(entry => entry !== change.entry);
+        const restored = context?.previous;
+        return restored && !data.some(entry => entry.id === restored.id) ? [...data, restored] : data;
+      });
+      toast.error("Couldn't save your goal progress", { description: error.message });
+    },
+  });
+
+  return {
+    addGoalEntry: (event: CalendarEvent, goalId: string, date: string, amount: number) =>
+      mutation.mutate({
+        type: 'add',
+        entry: {
+          id: `${goalId}-${date}-${Math.random().toString(36).slice(2, 8)}`,
+          eventKey: getOccurrenceKey(event),
+          goalId,
+          date,
+          amount,
+        },
+      }),
+    deleteGoalEntry: (id: string) =>
+      mutation.mutate({ type: 'delete', id }),
+  };
+}
+
+export { goalEntriesQueryOptions, useGoalEntries, useGoalEntryMutations };
@@ -0,0 +1,80 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { Habit, generateHabitId, toggleCheckIn } from "@/data/habits";
+import { loadHabits, removeHabit, saveHabit } from "@/data/persistence";
+
+const HABITS_QUERY_KEY = ['habits'] as const;
+
+const EMPTY_HABITS: Habit[] = [];
+
+/**
+ * Loads habits and their check-ins once per session; the mutations
+ * below keep the cached copy current afterwards.
+ */
+const habitsQueryOptions = queryOptions({
+  queryKey: HABITS_QUERY_KEY,
+  queryFn: loadHabits,
+  staleTime: Infinity,
+  gcTime: Infinity,
+});
+
+function useHabits(): Habit[] {
+  const { data } = useQuery(habitsQueryOptions);
+  return data ?? EMPTY_HABITS;
+}
+
+type HabitChange = { type: 'save'; habit: Habit } | { type: 'delete'; id: string };
+
+/**
+ * Add, check in, restore and delete habits.
+ * Applied to the cache immediately and rolled back if saving fails.
+ */
+function useHabitMutations() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (change: HabitChange) =>
+      change.type === 'save' ? saveHabit(change.habit) : removeHabit(change.id),
+    onMutate: (change) => {
+      const id = change.type === 'save' ? change.habit.id : change.id;
+      const previous = queryClient.getQueryData<Habit[]>(HABITS_QUERY_KEY)?.find(habit => habit.id === id);
+      queryClient.setQueryData<Habit[]>(HABITS_QUERY_KEY, (data = []) => {
+        if (change.type === 'delete') return data.filter(habit => habit.id !== change.id);
+        const exists = data.some(habit => habit.id === change.habit.id);
+        return exists
+          ? data.map(habit => (habit.id === change.habit.id ? change.habit : habit))
+          : [...data, change.habit];
+      });
+      return { previous };
+    },
+    onError: (error: Error, change, context) => {
+      // Only this habit, and only if no later change (e.g. another check-in) has replaced it
+      queryClient.setQueryData<Habit[]>(HABITS_QUERY_KEY, (data = []) => {
+        const id = change.type === 'save' ? change.habit.id : change.id;
+        const current = data.find(habit => habit.id === id);
+        if (change.type === 'save' ? current !== change.habit : current) return data;
+        const previous = context?.previous;
+        if (!previous) return data.filter(habit => habit.id !== id);
+        return current ? data.map(habit => (habit.id === id ? previous : habit)) : [...data, previous];
+      });
+      toast.error("Couldn't save your habits", { description: error.message });
+    },
+  });
+
+  return {
+    addHabit: (name: string, color: string) =>
+      mutation.mutate({ type: 'save', habit: { id: generateHabitId(name), name, color, checkIns: [] } }),
+    // Toggled against the cached copy, so quick repeated clicks don't undo each other
+    toggleCheckIn: (id: string, date: string) => {
+      const habit = queryClient.getQueryData<Habit[]>(HABITS_QUERY_KEY)?.find(candidate => candidate.id === id);
+      if (habit) mutation.mutate({ type: 'save', habit: toggleCheckIn(habit, date) });
+    },
+    restoreHabit: (habit: Habit) =>
+      mutation.mutate({ type: 'save', habit }),
+    deleteHabit: (id: string) =>
+      mutation.mutate({ type: 'delete', id }),
+  };
+}
+
+export { habitsQueryOptions, useHabits, useHabitMutations };
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Single-key shortcuts for a view, keyed by KeyboardEvent.key
+ * (e.g. "ArrowLeft", "w"). Keys pressed with a modifier or while typing
+ * in a form field are ignored; pass `enabled: false` while a modal is open.
+ */
+export function useKeyboardShortcuts(shortcuts: Record<string, () => void>, enabled = true) {
+  // Latest handlers without re-subscribing on every render
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const handler = shortcutsRef.current[e.key];
+      if (handler) {
+        e.preventDefault();
+        handler();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,105 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { loadWorkouts, removeWorkout, saveWorkout, saveWorkouts } from "@/data/persistence";
+import { Workout, generateWorkoutId } from "@/data/workouts";
+
+const WORKOUTS_QUERY_KEY = ['workouts'] as const;
+
+const EMPTY_WORKOUTS: Workout[] = [];
+
+/**
+ * Loads the training log once per session; the mutations below keep
+ * the cached copy current afterwards.
+ */
+const workoutsQueryOptions = queryOptions({
+  queryKey: WORKOUTS_QUERY_KEY,
+  queryFn: loadWorkouts,
+  staleTime: Infinity,
+  gcTime: Infinity,
+});
+
+function useWorkouts(): Workout[] {
+  const { data } = useQuery(workoutsQueryOptions);
+  return data ?? EMPTY_WORKOUTS;
+}
+
+type WorkoutChange =
+  | { type: 'save'; workout: Workout }
+  | { type: 'import'; workouts: Workout[] }
+  | { type: 'delete'; id: string };
+
+/**
+ * HELPER: Ids of the workouts a change touches
+ */
+function getChangedIds(change: WorkoutChange): string[] {
+  if (change.type === 'save') return [change.workout.id];
+  if (change.type === 'import') return change.workouts.map(workout => workout.id);
+  return [change.id];
+}
+
+/**
+ * HELPER: Persist one change
+ */
+async function persistChange(change: WorkoutChange): Promise<void> {
+  if (change.type === 'save') return saveWorkout(change.workout);
+  if (change.type === 'delete') return removeWorkout(change.id);
+  await saveWorkouts(change.workouts);
+}
+
+/**
+ * Log, import, edit and delete workouts.
+ * Applied to the cache immediately and rolled back if saving fails.
+ */
+function useWorkoutMutations() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: persistChange,
+    onMutate: (change) => {
+      const ids = getChangedIds(change);
+      const previous = (queryClient.getQueryData<Workout[]>(WORKOUTS_QUERY_KEY) ?? []).filter(workout => ids.includes(workout.id));
+      queryClient.setQueryData<Workout[]>(WORKOUTS_QUERY_KEY, (data = []) => {
+        if (change.type === 'delete') return data.filter(workout => workout.id !== change.id);
+        if (change.type === 'import') return [...data, ...change.workouts];
+        const exists = data.some(workout => workout.id === change.workout.id);
+        return exists
+          ? data.map(workout => (workout.id === change.workout.id ? change.workout : workout))
+          : [...data, change.workout];
+      });
+      return { previous };
+    },
+    onError: (error: Error, change, context) => {
+      // Only the workouts this change touched and no later change has replaced
+      queryClient.setQueryData<Workout[]>(WORKOUTS_QUERY_KEY, (data = []) => {
+        const written = change.type === 'save' ? [change.workout] : change.type === 'import' ? change.workouts : [];
+        const ids = getChangedIds(change).filter(id => {
+          const current = data.find(workout => workout.id === id);
+          return change.type === 'delete' ? !current : current === written.find(workout => workout.id === id);
+        });
+        const previous = (context?.previous ?? []).filter(workout => ids.includes(workout.id));
+        const restored = data
+          .filter(workout => !ids.includes(workout.id) || previous.some(p => p.id === workout.id))
+          .map(workout => previous.find(p => p.id === workout.id) ?? workout);
+        return [...restored, ...previous.filter(p => !data.some(workout => workout.id === p.id))];
+      });
+      toast.error("Couldn't save your training log", { description: error.message });
+    },
+  });
+
+  return {
+    logWorkout: (input: Omit<Workout, 'id'>) =>
+      mutation.mutate({ type: 'save', workout: { ...input, id: generateWorkoutId(input.date) } }),
+    importWorkouts: (inputs: Omit<Workout, 'id'>[], options?: { onSuccess?: () => void }) =>
+      mutation.mutate(
+        { type: 'import', workouts: inputs.map(input => ({ ...input, id: generateWorkoutId(input.date) })) },
+        options
+      ),
+    updateWorkout: (workout: Workout) =>
+      mutation.mutate({ type: 'save', workout }),
+    deleteWorkout: (id: string) =>
+      mutation.mutate({ type: 'delete', id }),
+  };
+}
+
+export { workoutsQueryOptions, useWorkouts, useWorkoutMutations };
@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+import { YearConfig } from "@/data/years";
+import { useResolvedTheme } from "@/hooks/use-event-colors";
+import { getThemeAccent } from "@/lib/colors";
+
+/**
+ * Use the year's accent as the primary color for the whole page,
+ * including portals, while the calling page is mounted.
+ * Lightened on the dark theme to match its primary.
+ */
+export function useYearAccent(config: YearConfig) {
+  const accent = getThemeAccent(config.colors.accent, useResolvedTheme());
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.style.setProperty('--primary', accent);
+    root.style.setProperty('--ring', accent);
+
+    return () => {
+      root.style.removeProperty('--primary');
+      root.style.removeProperty('--ring');
+    };
+  }, [accent]);
+}
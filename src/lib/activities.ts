@@ -0,0 +1,336 @@
+/**
+ * ACTIVITY FILES
+ * ==============
+ *
+ * Turns GPX, TCX and FIT files recorded by watches and bike computers
+ * into training log workouts (see data/workouts.ts). Everything is
+ * parsed in the browser; files never leave the device.
+ *
+ * WHAT IS READ:
+ * - start: the first timestamp; the workout's date is that day in the viewer's zone
+ * - sport: GPX <type>, TCX Sport="...", FIT session sport
+ * - moving time: time between track points while moving faster than a
+ *   slow walk, so auto-pauses and stops don't count; FIT and TCX use the
+ *   device's own timer time when they have it
+ * - distance: the device's distance when recorded, otherwise the sum of
+ *   the great-circle distances between points
+ * - elevation gain: climbs of at least ELEVATION_THRESHOLD meters, to
+ *   ignore GPS and barometer noise
+ * - average heart rate: the device's average, or the mean of the samples
+ *
+ * RE-IMPORTS:
+ * Each workout remembers its activity's start instant as `importId`.
+ * Importing a file whose start is already in the log is skipped.
+ */
+
+import { formatDateString } from "@/data/events";
+import { Workout, WorkoutSport } from "@/data/workouts";
+import { FIT_EPOCH_OFFSET, FIT_TIMESTAMP_FIELD, FitMessage, decodeFit } from "@/lib/fit";
+
+export const ACTIVITY_FILE_EXTENSIONS = ['.gpx', '.tcx', '.fit'];
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const MIN_MOVING_SPEED = 0.5; // m/s, below a slow walk
+const ELEVATION_THRESHOLD = 3; // meters
+
+export interface TrackPoint {
+  time?: number; // ms since the Unix epoch
+  lat?: number;
+  lon?: number;
+  elevation?: number; // meters
+  distance?: number; // meters since the start, when the device records it
+  heartRate?: number; // bpm
+}
+
+/**
+ * What the device recorded for the whole activity; each value
+ * overrides the one derived from the track points
+ */
+export interface ActivityTotals {
+  movingSeconds?: number;
+  distanceMeters?: number;
+  elevationGain?: number;
+  avgHeartRate?: number;
+}
+
+export interface ParsedActivity {
+  start: Date;
+  sport: WorkoutSport;
+  movingSeconds: number;
+  distanceMeters?: number;
+  elevationGain?: number;
+  avgHeartRate?: number;
+}
+
+/**
+ * HELPER: Whether a file name looks like an activity file
+ */
+export function isActivityFile(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return ACTIVITY_FILE_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+/**
+ * HELPER: Sport from a free-text activity type ("running", "Biking", "lap_swimming", ...)
+ */
+export function toSport(type: string | null | undefined): WorkoutSport {
+  const value = (type ?? '').toLowerCase();
+  if (/run|jog|trail/.test(value)) return 'run';
+  if (/bik|cycl|ride/.test(value)) return 'bike';
+  if (/swim/.test(value)) return 'swim';
+  if (/strength|weight|gym/.test(value)) return 'strength';
+  return 'other';
+}
+
+/**
+ * HELPER: Great-circle distance between two points, in meters
+ */
+function haversine(a: TrackPoint, b: TrackPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat! - a.lat!);
+  const dLon = toRadians(b.lon! - a.lon!);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat!)) * Math.cos(toRadians(b.lat!)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Summarize track points into an activity; `totals` from the device win
+ */
+export function summarizeTrack(
+  points: TrackPoint[],
+  sport: WorkoutSport,
+  totals: ActivityTotals = {}
+): ParsedActivity {
+  const timed = points.filter(point => point.time !== undefined);
+  if (timed.length === 0) throw new Error('The file has no timestamps');
+  const start = new Date(timed[0].time!);
+
+  let distance = 0;
+  let hasDistance = false;
+  let movingSeconds = 0;
+  for (let i = 1; i < timed.length; i++) {
+    const previous = timed[i - 1];
+    const point = timed[i];
+    const seconds = (point.time! - previous.time!) / 1000;
+    if (seconds <= 0) continue;
+
+    let meters: number | null = null;
+    if (point.distance !== undefined && previous.distance !== undefined) {
+      meters = Math.max(0, point.distance - previous.distance);
+    } else if (point.lat !== undefined && previous.lat !== undefined) {
+      meters = haversine(previous, point);
+    }
+
+    if (meters === null) {
+      // No positions (pool swims, treadmills): all recorded time counts
+      movingSeconds += seconds;
+    } else {
+      hasDistance = true;
+      distance += meters;
+      if (meters / seconds >= MIN_MOVING_SPEED) movingSeconds += seconds;
+    }
+  }
+
+  // Gain with hysteresis: only climbs of ELEVATION_THRESHOLD or more count
+  let gain = 0;
+  let hasElevation = false;
+  let reference: number | undefined;
+  timed.forEach(point => {
+    if (point.elevation === undefined) return;
+    hasElevation = true;
+    if (reference === undefined || point.elevation < reference) {
+      reference = point.elevation;
+    } else if (point.elevation - reference >= ELEVATION_THRESHOLD) {
+      gain += point.elevation - reference;
+      reference = point.elevation;
+    }
+  });
+
+  const heartRates = timed.map(point => point.heartRate).filter((rate): rate is number => !!rate);
+  const meanHeartRate = heartRates.length > 0
+    ? heartRates.reduce((sum, rate) => sum + rate, 0) / heartRates.length
+    : undefined;
+
+  return {
+    start,
+    sport,
+    movingSeconds: totals.movingSeconds ?? movingSeconds,
+    distanceMeters: totals.distanceMeters ?? (hasDistance ? distance : undefined),
+    elevationGain: totals.elevationGain ?? (hasElevation ? gain : undefined),
+    avgHeartRate: totals.avgHeartRate ?? meanHeartRate,
+  };
+}
+
+/**
+ * HELPER: Parse XML, failing with a readable message
+ */
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid XML');
+  return doc;
+}
+
+/**
+ * HELPER: Elements by local name in any namespace (GPX extensions use prefixes like gpxtpx:hr)
+ */
+function byName(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+/**
+ * HELPER: Number in the first descendant with this local name
+ */
+function numberIn(parent: Element, name: string): number | undefined {
+  const text = byName(parent, name)[0]?.textContent;
+  const value = text ? Number(text) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function timeIn(parent: Element): number | undefined {
+  const text = byName(parent, 'time')[0]?.textContent ?? byName(parent, 'Time')[0]?.textContent;
+  const time = text ? Date.parse(text) : NaN;
+  return Number.isFinite(time) ? time : undefined;
+}
+
+export function parseGpx(text: string): ParsedActivity {
+  const doc = parseXml(text);
+  const track = byName(doc, 'trk')[0];
+  if (!track) throw new Error('The GPX file has no track');
+
+  const points = byName(track, 'trkpt').map<TrackPoint>(point => ({
+    time: timeIn(point),
+    lat: Number(point.getAttribute('lat')),
+    lon: Number(point.getAttribute('lon')),
+    elevation: numberIn(point, 'ele'),
+    heartRate: numberIn(point, 'hr'),
+  }));
+
+  const type = Array.from(track.children).find(child => child.localName === 'type')?.textContent;
+  return summarizeTrack(points, toSport(type));
+}
+
+export function parseTcx(text: string): ParsedActivity {
+  const doc = parseXml(text);
+  const activity = byName(doc, 'Activity')[0];
+  if (!activity) throw new Error('The TCX file has no activity');
+
+  const points = byName(activity, 'Trackpoint').map<TrackPoint>(point => {
+    const position = byName(point, 'Position')[0];
+    return {
+      time: timeIn(point),
+      lat: position ? numberIn(position, 'LatitudeDegrees') : undefined,
+      lon: position ? numberIn(position, 'LongitudeDegrees') : undefined,
+      elevation: numberIn(point, 'AltitudeMeters'),
+      distance: numberIn(point, 'DistanceMeters'),
+      heartRate: byName(point, 'HeartRateBpm')[0] ? numberIn(byName(point, 'HeartRateBpm')[0], 'Value') : undefined,
+    };
+  });
+
+  // Lap totals are the device's own timer time and distance
+  const laps = byName(activity, 'Lap');
+  const lapTotal = (name: string) => {
+    const values = laps.map(lap => {
+      const child = Array.from(lap.children).find(element => element.localName === name);
+      return child ? Number(child.textContent) : NaN;
+    });
+    return values.length > 0 && values.every(Number.isFinite) ? values.reduce((sum, value) => sum + value, 0) : undefined;
+  };
+
+  // Summaries without track points (manual entries, some treadmills) still have a start
+  if (!points.some(point => point.time !== undefined) && laps[0]?.getAttribute('StartTime')) {
+    points.unshift({ time: Date.parse(laps[0].getAttribute('StartTime')!) });
+  }
+
+  return summarizeTrack(points, toSport(activity.getAttribute('Sport')), {
+    movingSeconds: lapTotal('TotalTimeSeconds'),
+    distanceMeters: lapTotal('DistanceMeters'),
+  });
+}
+
+// FIT profile: message numbers, field numbers, scales and sport codes
+const FIT_SESSION = 18;
+const FIT_RECORD = 20;
+const FIT_SPORTS: Record<number, WorkoutSport> = { 1: 'run', 2: 'bike', 5: 'swim', 10: 'strength' };
+const FIT_STRENGTH_SUB_SPORT = 20;
+
+/**
+ * HELPER: A numeric FIT field after the profile's scale and offset
+ */
+function fitNumber(message: FitMessage, field: number, scale = 1, offset = 0): number | undefined {
+  const value = message.fields[field];
+  return typeof value === 'number' ? value / scale - offset : undefined;
+}
+
+function fitTime(message: FitMessage, field = FIT_TIMESTAMP_FIELD): number | undefined {
+  const seconds = fitNumber(message, field);
+  return seconds === undefined ? undefined : (seconds + FIT_EPOCH_OFFSET) * 1000;
+}
+
+export function parseFit(buffer: ArrayBuffer): ParsedActivity {
+  const messages = decodeFit(buffer);
+
+  const points = messages
+    .filter(message => message.num === FIT_RECORD)
+    .map<TrackPoint>(record => {
+      const lat = fitNumber(record, 0);
+      const lon = fitNumber(record, 1);
+      const semicircles = 180 / 2 ** 31;
+      return {
+        time: fitTime(record),
+        lat: lat === undefined ? undefined : lat * semicircles,
+        lon: lon === undefined ? undefined : lon * semicircles,
+        // enhanced_altitude, else altitude; both scale 5, offset 500
+        elevation: fitNumber(record, 78, 5, 500) ?? fitNumber(record, 2, 5, 500),
+        distance: fitNumber(record, 5, 100),
+        heartRate: fitNumber(record, 3),
+      };
+    });
+
+  const session = messages.find(message => message.num === FIT_SESSION);
+  if (!session) return summarizeTrack(points, 'other');
+
+  const sportCode = fitNumber(session, 5);
+  const sport = fitNumber(session, 6) === FIT_STRENGTH_SUB_SPORT
+    ? 'strength'
+    : (sportCode !== undefined && FIT_SPORTS[sportCode]) || 'other';
+  const startTime = fitTime(session, 2);
+  if (startTime !== undefined && !points.some(point => point.time === startTime)) {
+    points.unshift({ time: startTime });
+  }
+  points.sort((a, b) => (a.time ?? 0) - (b.time ?? 0));
+
+  return summarizeTrack(points, sport, {
+    movingSeconds: fitNumber(session, 8, 1000), // total_timer_time
+    distanceMeters: fitNumber(session, 9, 100),
+    elevationGain: fitNumber(session, 22),
+    avgHeartRate: fitNumber(session, 16),
+  });
+}
+
+/**
+ * Parse an activity file by its extension
+ */
+export async function parseActivityFile(file: File): Promise<ParsedActivity> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.fit')) return parseFit(await file.arrayBuffer());
+  if (name.endsWith('.tcx')) return parseTcx(await file.text());
+  if (name.endsWith('.gpx')) return parseGpx(await file.text());
+  throw new Error('Only .gpx, .tcx and .fit activity files can be imported');
+}
+
+/**
+ * The training log entry for an activity
+ */
+export function toWorkout(activity: ParsedActivity): Omit<Workout, 'id'> {
+  const round = (value: number, digits: number) => Number(value.toFixed(digits));
+  return {
+    date: formatDateString(activity.start),
+    sport: activity.sport,
+    durationMinutes: Math.max(1, round(activity.movingSeconds / 60, 2)),
+    distanceKm: activity.distanceMeters ? round(activity.distanceMeters / 1000, 2) : undefined,
+    elevationM: activity.elevationGain ? Math.round(activity.elevationGain) : undefined,
+    avgHeartRate: activity.avgHeartRate ? Math.round(activity.avgHeartRate) : undefined,
+    importId: activity.start.toISOString(),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * AGENDA
+ * ======
+ *
+ * Grouping and relative labels for the agenda (list) view.
+ * Events are grouped by the month, then the week, they start in;
+ * events carried over from an earlier month are listed under the
+ * first month of the range being shown.
+ */
+
+import { differenceInCalendarDays, format, startOfWeek } from "date-fns";
+import { CalendarEvent, formatDateString, getEventPosition, isMultiDayEvent, parseDateString } from "@/data/events";
+
+export interface AgendaWeek {
+  weekStart: Date;
+  label: string; // e.g. "Mar 2 – Mar 8"
+  events: CalendarEvent[];
+}
+
+export interface AgendaMonth {
+  month: number; // 0-indexed
+  year: number;
+  weeks: AgendaWeek[];
+}
+
+/**
+ * Group events (sorted by start) into months and weeks.
+ * `rangeStart` is where the list begins; earlier starts count from there.
+ */
+export function groupAgenda(events: CalendarEvent[], rangeStart: string, weekStartsOn: 0 | 1): AgendaMonth[] {
+  const months: AgendaMonth[] = [];
+
+  events.forEach(event => {
+    const anchor = parseDateString(event.start < rangeStart ? rangeStart : event.start);
+    const weekStart = startOfWeek(anchor, { weekStartsOn });
+
+    let month = months[months.length - 1];
+    if (!month || month.month !== anchor.getMonth() || month.year !== anchor.getFullYear()) {
+      month = { month: anchor.getMonth(), year: anchor.getFullYear(), weeks: [] };
+      months.push(month);
+    }
+
+    let week = month.weeks[month.weeks.length - 1];
+    if (!week || week.weekStart.getTime() !== weekStart.getTime()) {
+      const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6);
+      week = { weekStart, label: `${format(weekStart, 'MMM d')} – ${format(weekEnd, 'MMM d')}`, events: [] };
+      month.weeks.push(week);
+    }
+
+    week.events.push(event);
+  });
+
+  return months;
+}
+
+/**
+ * HELPER: Count in words, e.g. plural(3, 'day') -> "3 days"
+ */
+function plural(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * HELPER: Distance to a future date, e.g. "in 3 days", "in 2 weeks"
+ */
+function describeDaysAhead(days: number): string {
+  if (days === 1) return 'tomorrow';
+  if (days < 14) return `in ${plural(days, 'day')}`;
+  if (days < 60) return `in ${plural(Math.round(days / 7), 'week')}`;
+  return `in ${plural(Math.round(days / 30), 'month')}`;
+}
+
+/**
+ * HELPER: Which day of an event `date` is, e.g. { day: 12, total: 58 }.
+ * Days are counted from 1; dates outside the event fall outside 1..total.
+ */
+export function getPhaseDay(event: CalendarEvent, date: Date): { day: number; total: number } {
+  const start = parseDateString(event.start);
+  return {
+    day: differenceInCalendarDays(date, start) + 1,
+    total: differenceInCalendarDays(parseDateString(event.end), start) + 1,
+  };
+}
+
+/**
+ * Relative label for an event as of `today`:
+ * "in 3 days", "today", "ongoing, day 12 of 58", "ended 4 days ago"
+ */
+export function describeRelative(event: CalendarEvent, today: Date): string {
+  const todayStr = formatDateString(today);
+  const start = parseDateString(event.start);
+  const end = parseDateString(event.end);
+
+  if (todayStr < event.start) {
+    return describeDaysAhead(differenceInCalendarDays(start, today));
+  }
+
+  if (todayStr > event.end) {
+    const daysAgo = differenceInCalendarDays(today, end);
+    const ago = daysAgo === 1 ? 'yesterday' : `${plural(daysAgo, 'day')} ago`;
+    return isMultiDayEvent(event) ? `ended ${ago}` : ago;
+  }
+
+  const { day, total } = getPhaseDay(event, today);
+
+  switch (getEventPosition(event, today)) {
+    case 'single':
+      return 'today';
+    case 'start':
+      return `starts today, day 1 of ${total}`;
+    case 'end':
+      return `ends today, day ${total} of ${total}`;
+    default:
+      return `ongoing, day ${day} of ${total}`;
+  }
+}
+
+/**
+ * HELPER: Plain-text start of an event's Markdown details for previews,
+ * with headings, emphasis, links and list/checkbox markers removed
+ */
+export function getDetailsPreview(details: string, maxLength = 140): string {
+  const text = details
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(?:#{1,6}\s+|>\s*|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+|\|)/gm, '')
+    .replace(/[*_~`|]+/g, '')
+    .replace(/^-{3,}$/gm, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
@@ -0,0 +1,75 @@
+/**
+ * CHECKLISTS
+ * ==========
+ *
+ * Task list items (`- [ ] Video analysis`) in event details can be
+ * ticked off in the event modal. Progress is stored separately from the
+ * event, keyed by occurrence (see getOccurrenceKey), so each occurrence
+ * of a recurring event has its own checklist while the details stay as
+ * written.
+ *
+ * Tasks are identified by their position among the task items in the
+ * details. Until an occurrence has stored progress, the `[x]` marks in
+ * the Markdown itself are used.
+ */
+
+import { CalendarEvent } from "@/data/events";
+import { getOccurrenceKey } from "@/lib/recurrence";
+
+/** Indices of completed tasks, by occurrence key */
+export type ChecklistState = Record<string, number[]>;
+
+export interface ChecklistTask {
+  line: number; // 1-based line in the Markdown source
+  checked: boolean; // as written in the Markdown
+}
+
+const TASK_PATTERN = /^(?:\s*>)*\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s/;
+const FENCE_PATTERN = /^(?:\s*>)*\s*(```|~~~)/;
+
+/**
+ * Find the task list items in a Markdown document, skipping fenced code
+ */
+export function parseTasks(markdown: string): ChecklistTask[] {
+  const tasks: ChecklistTask[] = [];
+  let fence: string | null = null;
+
+  markdown.split('\n').forEach((text, index) => {
+    const fenceMatch = FENCE_PATTERN.exec(text);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      return;
+    }
+    if (fence) return;
+
+    const match = TASK_PATTERN.exec(text);
+    if (match) tasks.push({ line: index + 1, checked: match[1] !== ' ' });
+  });
+
+  return tasks;
+}
+
+/**
+ * HELPER: Checked state for each task, from stored progress if any
+ */
+export function getTaskState(tasks: ChecklistTask[], done: number[] | undefined): boolean[] {
+  if (!done) return tasks.map(task => task.checked);
+  const doneSet = new Set(done);
+  return tasks.map((_, index) => doneSet.has(index));
+}
+
+/**
+ * HELPER: Completed and total tasks for an event or occurrence,
+ * or null when its details have no checklist
+ */
+export function getChecklistProgress(
+  event: CalendarEvent,
+  checklists: ChecklistState
+): { done: number; total: number } | null {
+  const tasks = parseTasks(event.details);
+  if (tasks.length === 0) return null;
+
+  const state = getTaskState(tasks, checklists[getOccurrenceKey(event)]);
+  return { done: state.filter(Boolean).length, total: tasks.length };
+}
@@ -0,0 +1,84 @@
+/**
+ * THEME-AWARE COLORS
+ * ==================
+ *
+ * Event and accent colors are single "H S% L%" triples, picked against
+ * the light theme. On the dark theme the same triple loses contrast:
+ * translucent bars sink into the background and a 39% lightness title
+ * is hard to read on a dark tile. These helpers derive the variants each
+ * theme draws with, so content files only ever need one color.
+ *
+ * - bar:      filled block with white text (multi-day bars, week bands)
+ * - barFaded: the bar's edge where it continues past the view
+ * - tint:     light fill behind colored or foreground text (single-day tiles)
+ * - wash:     fainter fill for roomy list items
+ * - text:     the color as text, on a tint
+ * - border:   tile outline
+ * - solid:    accent stripes and timeline borders
+ */
+
+import { HSL_PATTERN } from "@/data/eventSchema";
+
+export type ResolvedTheme = 'light' | 'dark';
+
+export interface EventColors {
+  bar: string;
+  barFaded: string;
+  tint: string;
+  wash: string;
+  text: string;
+  border: string;
+  solid: string;
+}
+
+// Lightness floors on the dark theme: text must read on a dark tint,
+// an accent behind dark primary-foreground text must stay light
+const DARK_TEXT_LIGHTNESS = 70;
+const DARK_ACCENT_LIGHTNESS = 60;
+
+/**
+ * HELPER: Raise a triple's lightness to at least `minLightness`.
+ * Strings that aren't "H S% L%" are returned unchanged.
+ */
+export function withMinLightness(color: string, minLightness: number): string {
+  const match = HSL_PATTERN.exec(color);
+  if (!match) return color;
+  const [hue, saturation, lightness] = match.slice(1).map(Number);
+  return lightness >= minLightness ? color : `${hue} ${saturation}% ${minLightness}%`;
+}
+
+/**
+ * The year accent as the theme's primary color
+ */
+export function getThemeAccent(accent: string, theme: ResolvedTheme): string {
+  return theme === 'dark' ? withMinLightness(accent, DARK_ACCENT_LIGHTNESS) : accent;
+}
+
+/**
+ * Every variant of an event color for a theme, as CSS colors
+ */
+export function getEventColors(color: string, theme: ResolvedTheme): EventColors {
+  if (theme === 'dark') {
+    const light = withMinLightness(color, DARK_TEXT_LIGHTNESS);
+    return {
+      // Nearly opaque, or the bar takes on the background's darkness
+      bar: `hsl(${color} / 0.9)`,
+      barFaded: `hsl(${color} / 0.65)`,
+      tint: `hsl(${light} / 0.2)`,
+      wash: `hsl(${light} / 0.12)`,
+      text: `hsl(${light})`,
+      border: `hsl(${light} / 0.45)`,
+      solid: `hsl(${light})`,
+    };
+  }
+
+  return {
+    bar: `hsl(${color} / 0.75)`,
+    barFaded: `hsl(${color} / 0.55)`,
+    tint: `hsl(${color} / 0.15)`,
+    wash: `hsl(${color} / 0.08)`,
+    text: `hsl(${color})`,
+    border: `hsl(${color} / 0.3)`,
+    solid: `hsl(${color})`,
+  };
+}
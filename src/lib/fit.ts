@@ -0,0 +1,187 @@
+/**
+ * FIT DECODER
+ * ===========
+ *
+ * Minimal reader for Garmin's binary FIT format, enough to pull
+ * activity summaries and track points out of watch files in the
+ * browser (see lib/activities.ts).
+ *
+ * A FIT file is a header, then a stream of records: definition
+ * messages describe the layout of a "local" message type, data
+ * messages carry values in that layout. Compressed timestamp headers
+ * (a 5-bit offset from the last full timestamp) are expanded into
+ * field 253. Developer fields are skipped, and so are array and 64-bit
+ * values, which the summaries don't need.
+ *
+ * Values are returned raw, before the profile's scale and offset
+ * (e.g. session distance is in centimeters); invalid values are null.
+ */
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+export const FIT_EPOCH_OFFSET = 631065600;
+
+export const FIT_TIMESTAMP_FIELD = 253;
+
+export interface FitMessage {
+  num: number; // global message number, e.g. 18 = session, 20 = record
+  fields: Record<number, number | string | null>;
+}
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  num: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerSize: number; // bytes of developer fields to skip
+}
+
+// Byte size of each base type, indexed by its low 5 bits (0 for strings)
+const BASE_TYPE_SIZES = [1, 1, 1, 2, 2, 4, 4, 0, 4, 8, 1, 2, 4, 1, 8, 8, 8];
+
+/**
+ * HELPER: Read one value of a base type; null for invalid or unsupported values
+ */
+function readValue(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | string | null {
+  const type = field.baseType & 0x1f;
+
+  if (type === 7) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+    const length = bytes.indexOf(0);
+    return new TextDecoder().decode(length === -1 ? bytes : bytes.subarray(0, length)) || null;
+  }
+  // Arrays of values don't fit the summaries
+  if (BASE_TYPE_SIZES[type] !== field.size) return null;
+
+  switch (type) {
+    case 0: // enum
+    case 2: { // uint8
+      const value = view.getUint8(offset);
+      return value === 0xff ? null : value;
+    }
+    case 1: {
+      const value = view.getInt8(offset);
+      return value === 0x7f ? null : value;
+    }
+    case 3: {
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? null : value;
+    }
+    case 4: {
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? null : value;
+    }
+    case 5: {
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? null : value;
+    }
+    case 6: {
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? null : value;
+    }
+    case 8: {
+      const value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 9: {
+      const value = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 10:
+      return view.getUint8(offset) || null;
+    case 11:
+      return view.getUint16(offset, littleEndian) || null;
+    case 12:
+      return view.getUint32(offset, littleEndian) || null;
+    default: // byte arrays and 64-bit integers
+      return null;
+  }
+}
+
+/**
+ * Decode every data message in a FIT file, in file order
+ */
+export function decodeFit(buffer: ArrayBuffer): FitMessage[] {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12) throw new Error('File is too short to be a FIT file');
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(...new Uint8Array(buffer, 8, 4));
+  if (signature !== '.FIT') throw new Error('Not a FIT file (missing ".FIT" signature)');
+
+  const end = Math.min(headerSize + dataSize, buffer.byteLength);
+  const definitions = new Map<number, MessageDefinition>();
+  const messages: FitMessage[] = [];
+  let offset = headerSize;
+  let lastTimestamp = 0;
+
+  const readData = (localType: number, compressedTimestamp: number | null) => {
+    const definition = definitions.get(localType);
+    if (!definition) throw new Error(`Data message before its definition (local type ${localType})`);
+
+    const fields: FitMessage['fields'] = {};
+    definition.fields.forEach(field => {
+      if (offset + field.size > end) throw new Error('FIT file ends in the middle of a message');
+      fields[field.num] = readValue(view, offset, field, definition.littleEndian);
+      offset += field.size;
+    });
+    offset += definition.developerSize;
+
+    const timestamp = fields[FIT_TIMESTAMP_FIELD];
+    if (typeof timestamp === 'number') {
+      lastTimestamp = timestamp;
+    } else if (compressedTimestamp !== null) {
+      fields[FIT_TIMESTAMP_FIELD] = compressedTimestamp;
+    }
+    messages.push({ num: definition.num, fields });
+  };
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+
+    if (header & 0x80) {
+      // Compressed timestamp header: offset in seconds from the last full timestamp, rolling over every 32
+      const timeOffset = header & 0x1f;
+      const rollover = timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0;
+      lastTimestamp = (lastTimestamp & ~0x1f) + timeOffset + rollover;
+      readData((header >> 5) & 0x03, lastTimestamp);
+      continue;
+    }
+
+    const localType = header & 0x0f;
+    if (!(header & 0x40)) {
+      readData(localType, null);
+      continue;
+    }
+
+    // Definition message
+    const littleEndian = view.getUint8(offset + 1) === 0;
+    const num = view.getUint16(offset + 2, littleEndian);
+    const fieldCount = view.getUint8(offset + 4);
+    offset += 5;
+
+    const fields: FieldDefinition[] = [];
+    for (let i = 0; i < fieldCount; i++) {
+      fields.push({ num: view.getUint8(offset), size: view.getUint8(offset + 1), baseType: view.getUint8(offset + 2) });
+      offset += 3;
+    }
+
+    let developerSize = 0;
+    if (header & 0x20) {
+      const developerCount = view.getUint8(offset++);
+      for (let i = 0; i < developerCount; i++) {
+        developerSize += view.getUint8(offset + 1);
+        offset += 3;
+      }
+    }
+
+    definitions.set(localType, { num, littleEndian, fields, developerSize });
+  }
+
+  return messages;
+}
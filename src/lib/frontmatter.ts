@@ -0,0 +1,129 @@
+/**
+ * FRONTMATTER
+ * ===========
+ *
+ * Splits a Markdown file into its `---` delimited frontmatter and body.
+ *
+ * Supports the small YAML subset event files need:
+ * - key: value            (plain, "double" or 'single' quoted)
+ * - key: [a, b, c]        (inline list)
+ * - key:                  (block list)
+ *     - a
+ * - true / false          (booleans)
+ * - # comments            (full-line or after a value)
+ *
+ * Everything else is kept as a string so dates like 2026-03-01 and
+ * colors like 0 72% 50% are never reinterpreted.
+ *
+ * Used both in the browser and by the Vite config, so this module
+ * must not use the "@/" path alias.
+ */
+
+export type FrontmatterValue = string | boolean | string[];
+
+export interface FrontmatterResult {
+  data: Record<string, FrontmatterValue>;
+  body: string;
+}
+
+export class FrontmatterError extends Error {
+  line: number; // 1-based line number in the file
+
+  constructor(message: string, line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = 'FrontmatterError';
+    this.line = line;
+  }
+}
+
+/**
+ * HELPER: Drop a trailing "# comment" that is outside quotes
+ */
+function stripComment(value: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i).trimEnd();
+    }
+  }
+  return value;
+}
+
+function parseScalar(raw: string): string | boolean {
+  const value = raw.trim();
+  if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+    return value.slice(1, -1);
+  }
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+function parseInlineList(raw: string): string[] {
+  const inner = raw.trim().slice(1, -1).trim();
+  if (!inner) return [];
+  return inner.split(',').map(item => String(parseScalar(item)));
+}
+
+export function parseFrontmatter(source: string): FrontmatterResult {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+
+  if (lines[0]?.trim() !== '---') {
+    return { data: {}, body: source };
+  }
+
+  const closingIndex = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+  if (closingIndex === -1) {
+    throw new FrontmatterError('frontmatter is missing its closing "---"', 1);
+  }
+
+  const data: Record<string, FrontmatterValue> = {};
+  let listKey: string | null = null;
+
+  for (let index = 1; index < closingIndex; index++) {
+    const lineNumber = index + 1;
+    const line = stripComment(lines[index]);
+    if (!line.trim()) continue;
+
+    const listItem = /^\s+-\s+(.*)$/.exec(line) ?? /^-\s+(.*)$/.exec(line);
+    if (listItem) {
+      if (!listKey) throw new FrontmatterError('list item without a key above it', lineNumber);
+      (data[listKey] as string[]).push(String(parseScalar(listItem[1])));
+      continue;
+    }
+
+    const pair = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(line);
+    if (!pair) {
+      throw new FrontmatterError(`expected "key: value", got "${line.trim()}"`, lineNumber);
+    }
+
+    const [, key, rawValue] = pair;
+    if (key in data) {
+      throw new FrontmatterError(`"${key}" is set more than once`, lineNumber);
+    }
+
+    if (rawValue === '') {
+      // Start of a block list
+      data[key] = [];
+      listKey = key;
+    } else if (rawValue.trim().startsWith('[')) {
+      if (!rawValue.trim().endsWith(']')) {
+        throw new FrontmatterError(`unterminated list for "${key}"`, lineNumber);
+      }
+      data[key] = parseInlineList(rawValue);
+      listKey = null;
+    } else {
+      data[key] = parseScalar(rawValue);
+      listKey = null;
+    }
+  }
+
+  // Body starts after the closing delimiter; a single blank separator line is dropped
+  const body = lines.slice(closingIndex + 1).join('\n').replace(/^\n/, '').trimEnd();
+  return { data, body };
+}
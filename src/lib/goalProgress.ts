@@ -0,0 +1,181 @@
+/**
+ * GOAL PROGRESS
+ * =============
+ *
+ * Where an event's goal stands today (see data/goals.ts).
+ *
+ * PERIODS:
+ * Progress is counted in the period that contains today: the day, the
+ * week (from the year's first weekday), the month, or the whole event.
+ * Periods are cut to the event's dates, so a phase starting on a
+ * Wednesday has a short first week with the full weekly target.
+ * Before the event starts the first period is shown, after it ends the last.
+ *
+ * PROJECTIONS:
+ * - on-track: at least the even-pace share of the target for the days
+ *   already behind you (today still counts as time left)
+ * - behind:   less than that
+ * - met / missed: the target was reached / the period is over without it
+ * - upcoming: the period hasn't started
+ * `projected` extends the pace so far, today included, to the period's end.
+ */
+
+import {
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { CalendarEvent, formatDateString, parseDateString } from "@/data/events";
+import { EventGoal, GoalEntry } from "@/data/goals";
+import { getOccurrenceKey } from "@/lib/recurrence";
+
+export type GoalStatus = 'upcoming' | 'on-track' | 'behind' | 'met' | 'missed';
+
+export interface GoalProgress {
+  goal: EventGoal;
+  start: string; // YYYY-MM-DD, first day of the period
+  end: string;   // YYYY-MM-DD, last day of the period
+  label: string; // "this week", "March", "in total", ...
+  total: number; // recorded in the period
+  percent: number; // of the target, 0-100
+  projected: number; // total at the period's end at the current pace
+  daysLeft: number; // including today
+  status: GoalStatus;
+}
+
+/**
+ * HELPER: "12" or "12.5", for amounts in a goal's metric
+ */
+export function formatGoalAmount(amount: number): string {
+  return String(Number(amount.toFixed(1)));
+}
+
+/**
+ * The period of a goal that contains `date`, cut to the event's dates
+ */
+export function getGoalPeriod(
+  goal: EventGoal,
+  event: CalendarEvent,
+  date: Date,
+  weekStartsOn: 0 | 1
+): { start: string; end: string } {
+  const dateStr = formatDateString(date);
+  const anchorStr = dateStr < event.start ? event.start : dateStr > event.end ? event.end : dateStr;
+  const anchor = parseDateString(anchorStr);
+
+  let start: string;
+  let end: string;
+  switch (goal.period) {
+    case 'day':
+      start = end = anchorStr;
+      break;
+    case 'week':
+      start = formatDateString(startOfWeek(anchor, { weekStartsOn }));
+      end = formatDateString(endOfWeek(anchor, { weekStartsOn }));
+      break;
+    case 'month':
+      start = formatDateString(startOfMonth(anchor));
+      end = formatDateString(endOfMonth(anchor));
+      break;
+    default:
+      start = event.start;
+      end = event.end;
+  }
+
+  return {
+    start: start < event.start ? event.start : start,
+    end: end > event.end ? event.end : end,
+  };
+}
+
+/**
+ * HELPER: "this week" while the period runs, its dates otherwise
+ */
+function getPeriodLabel(goal: EventGoal, start: string, end: string, todayStr: string): string {
+  const isCurrent = todayStr >= start && todayStr <= end;
+  const startDate = parseDateString(start);
+  switch (goal.period) {
+    case 'day':
+      return isCurrent ? 'today' : format(startDate, 'MMM d');
+    case 'week':
+      return isCurrent ? 'this week' : `week of ${format(startDate, 'MMM d')}`;
+    case 'month':
+      return isCurrent ? 'this month' : format(startDate, 'MMMM');
+    default:
+      return 'in total';
+  }
+}
+
+/**
+ * Progress, projection and status of one goal of an event (or occurrence)
+ */
+export function getGoalProgress(
+  goal: EventGoal,
+  event: CalendarEvent,
+  entries: GoalEntry[],
+  weekStartsOn: 0 | 1,
+  today: Date = new Date()
+): GoalProgress {
+  const todayStr = formatDateString(today);
+  const { start, end } = getGoalPeriod(goal, event, today, weekStartsOn);
+  const eventKey = getOccurrenceKey(event);
+
+  const total = entries
+    .filter(entry => entry.eventKey === eventKey && entry.goalId === goal.id && entry.date >= start && entry.date <= end)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const periodDays = differenceInCalendarDays(parseDateString(end), parseDateString(start)) + 1;
+  const elapsedDays = Math.min(periodDays, Math.max(0, differenceInCalendarDays(today, parseDateString(start)) + 1));
+  const projected = elapsedDays > 0 ? (total / elapsedDays) * periodDays : 0;
+
+  let status: GoalStatus;
+  if (total >= goal.target) {
+    status = 'met';
+  } else if (todayStr < start) {
+    status = 'upcoming';
+  } else if (todayStr > end) {
+    status = 'missed';
+  } else {
+    const expected = goal.target * ((elapsedDays - 1) / periodDays);
+    status = total >= expected ? 'on-track' : 'behind';
+  }
+
+  return {
+    goal,
+    start,
+    end,
+    label: getPeriodLabel(goal, start, end, todayStr),
+    total,
+    percent: Math.min(100, (total / goal.target) * 100),
+    projected,
+    daysLeft: periodDays - elapsedDays + (elapsedDays > 0 ? 1 : 0),
+    status,
+  };
+}
+
+/**
+ * One line on where a goal stands, e.g. "Behind · 12 km to go in 3 days"
+ */
+export function describeGoalProgress(progress: GoalProgress): string {
+  const { goal, total, projected, daysLeft, status } = progress;
+  const remaining = formatGoalAmount(goal.target - total);
+  const days = `${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+
+  switch (status) {
+    case 'met':
+      return 'Target met';
+    case 'missed':
+      return `Missed by ${remaining} ${goal.metric}`;
+    case 'upcoming':
+      return `Starts ${format(parseDateString(progress.start), 'MMM d')}`;
+    case 'on-track':
+      return total > 0
+        ? `On track · on pace for ${formatGoalAmount(projected)} ${goal.metric}`
+        : `On track · ${remaining} ${goal.metric} to go in ${days}`;
+    default:
+      return `Behind · ${remaining} ${goal.metric} to go in ${days}`;
+  }
+}
@@ -0,0 +1,609 @@
+/**
+ * ICALENDAR (.ics)
+ * ================
+ *
+ * Serializes calendar events to RFC 5545 so the year plan can be
+ * imported into phone and desktop calendars.
+ *
+ * All-day events are exported with DATE values: DTEND is the day after
+ * the event's last day, because iCalendar end dates are exclusive.
+ * Timed events use DATE-TIME values with TZID set to the event's IANA
+ * zone, or floating local times when the event has no zone. Each zone
+ * used gets a VTIMEZONE block describing its offsets and DST rules, as
+ * read from the runtime for the zone's earliest event year.
+ * Recurring events carry their rule as RRULE/EXDATE.
+ *
+ * The parser reads VEVENTs from other calendars (race calendars, club
+ * schedules) back into CalendarEvents. Times with a TZID keep that zone;
+ * UTC times are converted to the viewer's zone.
+ */
+
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { CalendarEvent, RecurrenceRule, formatDateString, isMultiDayEvent, parseDateString } from "@/data/events";
+import { isSameRecurrence } from "@/lib/recurrence";
+import {
+  getViewerTimeZone,
+  getZoneOffsetMinutes,
+  getZoneTransitions,
+  getZonedDateTime,
+  minutesToTime,
+  timeToMinutes,
+  zonedTimeToDate,
+} from "@/lib/time";
+import { isValidTimeZone, validateEvent } from "@/data/eventSchema";
+
+const PRODUCT_ID = '-//Year Focus//Year Calendar//EN';
+const DEFAULT_IMPORT_COLOR = '200 98% 39%'; // Primary blue
+const UID_DOMAIN = 'year-focus';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * HELPER: Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * HELPER: Fold a content line at 75 octets, continuing with a leading space.
+ * Splits on character boundaries so multi-byte UTF-8 stays intact.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * HELPER: YYYY-MM-DD -> YYYYMMDD
+ */
+function toIcsDate(dateStr: string): string {
+  return dateStr.replace(/-/g, '');
+}
+
+/**
+ * HELPER: YYYY-MM-DD + HH:MM -> YYYYMMDDTHHMM00
+ */
+function toIcsDateTime(dateStr: string, time: string): string {
+  return `${toIcsDate(dateStr)}T${time.replace(':', '')}00`;
+}
+
+/**
+ * HELPER: UTC timestamp in iCalendar form, e.g. 20260101T120000Z
+ */
+function toIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * HELPER: Minutes ahead of UTC -> UTC offset, e.g. -0600
+ */
+function toIcsOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * HELPER: iCalendar DTEND is exclusive, so an event ending on the 17th ends on the 18th
+ */
+function exclusiveEndDate(end: string): string {
+  return toIcsDate(formatDateString(addDays(parseDateString(end), 1)));
+}
+
+function serializeRule(rule: RecurrenceRule, formatUntil: (until: string) => string): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * DTSTART/DTEND (or DURATION) for an event.
+ * A timed event without an end time is a moment when it fits in one day,
+ * and runs whole days to the same time when it spans several.
+ */
+function serializeTiming(event: CalendarEvent): string[] {
+  const { startTime, endTime } = event;
+  if (!startTime) {
+    return [`DTSTART;VALUE=DATE:${toIcsDate(event.start)}`, `DTEND;VALUE=DATE:${exclusiveEndDate(event.end)}`];
+  }
+
+  const tzid = event.timeZone ? `;TZID=${event.timeZone}` : '';
+  const lines = [`DTSTART${tzid}:${toIcsDateTime(event.start, startTime)}`];
+  if (endTime) {
+    lines.push(`DTEND${tzid}:${toIcsDateTime(event.end, endTime)}`);
+  } else if (isMultiDayEvent(event)) {
+    lines.push(`DURATION:P${differenceInCalendarDays(parseDateString(event.end), parseDateString(event.start))}D`);
+  }
+  return lines;
+}
+
+/**
+ * RRULE and EXDATE lines; both must use the same value type as DTSTART
+ */
+function serializeRecurrence(event: CalendarEvent, rule: RecurrenceRule): string[] {
+  const { startTime, timeZone } = event;
+  if (!startTime) {
+    const lines = [`RRULE:${serializeRule(rule, toIcsDate)}`];
+    if (rule.exdates?.length) lines.push(`EXDATE;VALUE=DATE:${rule.exdates.map(toIcsDate).join(',')}`);
+    return lines;
+  }
+
+  // With a TZID, UNTIL has to be the UTC instant of the last allowed start
+  const formatUntil = (until: string) => timeZone
+    ? toIcsTimestamp(zonedTimeToDate(until, startTime, timeZone))
+    : toIcsDateTime(until, startTime);
+  const lines = [`RRULE:${serializeRule(rule, formatUntil)}`];
+  if (rule.exdates?.length) {
+    const tzid = timeZone ? `;TZID=${timeZone}` : '';
+    lines.push(`EXDATE${tzid}:${rule.exdates.map(date => toIcsDateTime(date, startTime)).join(',')}`);
+  }
+  return lines;
+}
+
+/**
+ * VTIMEZONE for an IANA zone: one STANDARD/DAYLIGHT observance per offset
+ * change in `year`, repeating yearly on the same weekday of the month
+ * (e.g. the second Sunday of March), or a single fixed offset without DST.
+ */
+function serializeTimeZone(timeZone: string, year: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const transitions = getZoneTransitions(timeZone, year);
+
+  if (transitions.length === 0) {
+    const offset = toIcsOffset(getZoneOffsetMinutes(timeZone, new Date(Date.UTC(year, 0, 1))));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  transitions.forEach(({ instant, offsetFrom, offsetTo }) => {
+    // Onset as the wall clock reads it just before the change
+    const onset = new Date(instant.getTime() + offsetFrom * 60000);
+    const day = onset.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)).getUTCDate();
+    const week = day > daysInMonth - 7 ? -1 : Math.ceil(day / 7);
+    const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][onset.getUTCDay()];
+    const kind = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${toIcsTimestamp(onset).replace('Z', '')}`,
+      `TZOFFSETFROM:${toIcsOffset(offsetFrom)}`,
+      `TZOFFSETTO:${toIcsOffset(offsetTo)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${week}${weekday}`,
+      `END:${kind}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * HELPER: Earliest event year per zone used by a timed event, for its VTIMEZONE
+ */
+function getEventTimeZones(events: CalendarEvent[]): Map<string, number> {
+  const zones = new Map<string, number>();
+  events.forEach(event => {
+    if (!event.startTime || !event.timeZone) return;
+    const year = parseDateString(event.start).getFullYear();
+    zones.set(event.timeZone, Math.min(year, zones.get(event.timeZone) ?? year));
+  });
+  return zones;
+}
+
+function serializeEvent(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${escapeText(event.id)}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    ...serializeTiming(event),
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.details.trim()) {
+    lines.push(`DESCRIPTION:${escapeText(event.details)}`);
+  }
+  if (event.recurrence) {
+    lines.push(...serializeRecurrence(event, event.recurrence));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize events to a complete VCALENDAR document
+ */
+export function serializeCalendar(events: CalendarEvent[], calendarName: string): string {
+  const stamp = toIcsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...[...getEventTimeZones(events)].flatMap(([timeZone, year]) => serializeTimeZone(timeZone, year)),
+    ...events.flatMap(event => serializeEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trigger a browser download of an .ics document
+ */
+export function downloadCalendar(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/* ------------------------------------------------------------------ */
+/* Import                                                              */
+/* ------------------------------------------------------------------ */
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDate {
+  date: string; // YYYY-MM-DD, wall-clock day in timeZone
+  time: string | null; // HH:MM for date-time values
+  timeZone: string | null; // IANA zone for TZID and UTC values; null for dates and floating times
+}
+
+export interface ParsedIcsEvent {
+  event: CalendarEvent | null; // null when the VEVENT couldn't be converted
+  problem: string | null; // why it was rejected, or what was approximated
+}
+
+export type ImportAction = 'add' | 'update' | 'skip';
+
+export interface ImportPlanRow {
+  event: CalendarEvent | null;
+  action: ImportAction;
+  reason: string;
+}
+
+/**
+ * HELPER: Undo TEXT escaping
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * HELPER: Split a TEXT list on unescaped commas
+ */
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Split a content line into name, parameters and value.
+ * Colons and semicolons inside quoted parameter values are kept.
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, valueStart).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart + 1) };
+}
+
+/**
+ * Parse DATE ("20261017") or DATE-TIME ("20261017T050000", optionally "Z").
+ * UTC times are converted to the viewer's zone (or `utcTarget`); TZID and
+ * floating times keep their wall-clock day and time. A TZID that isn't an
+ * IANA zone (e.g. a Windows zone name) is dropped, leaving a floating time.
+ */
+function parseIcsDate(line: ContentLine, utcTarget = getViewerTimeZone()): IcsDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+
+  if (hours === undefined || line.params.VALUE === 'DATE') {
+    return { date: `${year}-${month}-${day}`, time: null, timeZone: null };
+  }
+
+  if (utc) {
+    const instant = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes));
+    return { ...getZonedDateTime(instant, utcTarget), timeZone: utcTarget };
+  }
+
+  const tzid = line.params.TZID;
+  return {
+    date: `${year}-${month}-${day}`,
+    time: `${hours}:${minutes}`,
+    timeZone: tzid && isValidTimeZone(tzid) ? tzid : null,
+  };
+}
+
+/**
+ * HELPER: Whole minutes in an ISO 8601 duration such as "P3D", "P1W" or "PT2H"
+ */
+function durationToMinutes(value: string): number {
+  const match = /^[+]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return 0;
+  const [, weeks, days, hours, minutes] = match.map(part => Number(part ?? 0));
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+}
+
+/**
+ * HELPER: The end DTSTART plus DURATION gives, in the same form as DTEND
+ */
+function addDuration(start: IcsDate, minutes: number): IcsDate {
+  if (start.time === null) {
+    // All-day durations count whole days, like an exclusive DTEND
+    return { ...start, date: formatDateString(addDays(parseDateString(start.date), Math.floor(minutes / (24 * 60)))) };
+  }
+  const total = timeToMinutes(start.time) + minutes;
+  return {
+    ...start,
+    date: formatDateString(addDays(parseDateString(start.date), Math.floor(total / (24 * 60)))),
+    time: minutesToTime(total % (24 * 60)),
+  };
+}
+
+/**
+ * Parse an RRULE value. For timed events a UTC UNTIL is read as a day in
+ * `timeZone`, the zone the event's times are in.
+ */
+function parseRule(value: string, timeZone: string | null): { rule: RecurrenceRule | null; problem: string | null } {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue !== undefined) parts[key.toUpperCase()] = partValue;
+  });
+
+  const freq = parts.FREQ?.toLowerCase();
+  if (freq !== 'daily' && freq !== 'weekly' && freq !== 'monthly') {
+    return { rule: null, problem: `Repeat rule FREQ=${parts.FREQ ?? '?'} is not supported; imported as a single event` };
+  }
+
+  const rule: RecurrenceRule = { freq };
+  if (parts.INTERVAL && Number(parts.INTERVAL) > 1) rule.interval = Number(parts.INTERVAL);
+  if (parts.BYDAY) rule.byDay = parts.BYDAY.split(',').map(day => day.trim().toUpperCase());
+  if (parts.COUNT) rule.count = Number(parts.COUNT);
+  if (parts.UNTIL) {
+    const until = timeZone && /Z$/.test(parts.UNTIL)
+      ? parseIcsDate({ name: 'UNTIL', params: {}, value: parts.UNTIL }, timeZone)?.date
+      : /^(\d{4})(\d{2})(\d{2})/.exec(parts.UNTIL)?.slice(1).join('-');
+    if (until) rule.until = until;
+  }
+
+  const unsupported = Object.keys(parts).filter(key => !['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL', 'WKST'].includes(key));
+  return {
+    rule,
+    problem: unsupported.length > 0 ? `Ignored repeat rule parts: ${unsupported.join(', ')}` : null,
+  };
+}
+
+/**
+ * HELPER: Our own exports use "<id>@year-focus" as UID; strip it so re-imports match
+ */
+function uidToId(uid: string): string {
+  const suffix = `@${UID_DOMAIN}`;
+  return uid.endsWith(suffix) ? uid.slice(0, -suffix.length) : uid;
+}
+
+function convertEvent(lines: ContentLine[]): ParsedIcsEvent {
+  const get = (name: string) => lines.find(line => line.name === name);
+  const notes: string[] = [];
+
+  const title = unescapeText(get('SUMMARY')?.value ?? '').trim() || 'Untitled event';
+  const uid = get('UID')?.value.trim();
+  if (!uid) return { event: null, problem: `"${title}" has no UID` };
+
+  if (get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+    return { event: null, problem: `"${title}" is cancelled` };
+  }
+
+  const dtStart = get('DTSTART');
+  const start = dtStart && parseIcsDate(dtStart);
+  if (!start) return { event: null, problem: `"${title}" has no valid DTSTART` };
+
+  if (dtStart.params.TZID && start.time && !start.timeZone) {
+    notes.push(`Unknown time zone "${dtStart.params.TZID}"; times kept as written`);
+  }
+
+  // All-day DTEND is exclusive; timed DTEND is the moment the event stops.
+  // End times are read in the start's zone so both line up.
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  const endValue = dtEnd
+    ? parseIcsDate(dtEnd, start.timeZone ?? undefined)
+    : duration ? addDuration(start, durationToMinutes(duration.value)) : null;
+
+  let end = start.date;
+  let endTime: string | undefined;
+  if (endValue) {
+    const endsAtMidnight = endValue.time === null || endValue.time === '00:00';
+    const endsNextDay = endsAtMidnight && endValue.date > start.date;
+    end = endsNextDay ? formatDateString(addDays(parseDateString(endValue.date), -1)) : endValue.date;
+    if (start.time && endValue.time) endTime = endsNextDay ? '23:59' : endValue.time;
+  }
+  if (end < start.date) end = start.date;
+  // An end time equal to the start (or before it on the same day) carries no information
+  if (endTime && (endTime === start.time || (end === start.date && endTime < start.time!))) endTime = undefined;
+
+  let details = unescapeText(get('DESCRIPTION')?.value ?? '').trim();
+  const location = unescapeText(get('LOCATION')?.value ?? '').trim();
+  if (location) details = `${details}\n\n**Location:** ${location}`.trim();
+
+  const event: CalendarEvent = {
+    id: uidToId(uid),
+    title,
+    start: start.date,
+    end,
+    color: DEFAULT_IMPORT_COLOR,
+    details,
+    ...(start.time ? { startTime: start.time } : {}),
+    ...(endTime ? { endTime } : {}),
+    ...(start.time && start.timeZone ? { timeZone: start.timeZone } : {}),
+  };
+
+  const rrule = get('RRULE');
+  if (rrule) {
+    const { rule, problem } = parseRule(rrule.value, start.timeZone);
+    if (problem) notes.push(problem);
+    if (rule) {
+      const exdates = lines
+        .filter(line => line.name === 'EXDATE')
+        .flatMap(line => splitList(line.value).map(value => parseIcsDate({ ...line, value }, start.timeZone ?? undefined)?.date))
+        .filter((date): date is string => !!date);
+      if (exdates.length > 0) rule.exdates = [...new Set(exdates)].sort();
+      event.recurrence = rule;
+    }
+  }
+
+  return { event, problem: notes.length > 0 ? notes.join('; ') : null };
+}
+
+/**
+ * Parse every VEVENT in an .ics document.
+ * Handles folded lines, escaped text, all-day and timed events, and RRULE/EXDATE.
+ * Instances that override a single occurrence (RECURRENCE-ID) are reported as skipped.
+ */
+export function parseCalendar(text: string): ParsedIcsEvent[] {
+  const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '');
+  const results: ParsedIcsEvent[] = [];
+
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0; // VALARM and friends inside a VEVENT
+
+  unfolded.split('\n').forEach(rawLine => {
+    if (!rawLine.trim()) return;
+    const line = parseContentLine(rawLine);
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+      } else if (current) {
+        nestedDepth++;
+      }
+      return;
+    }
+
+    if (line.name === 'END' && current) {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (line.value.toUpperCase() === 'VEVENT') {
+        const recurrenceId = current.find(l => l.name === 'RECURRENCE-ID');
+        const summary = unescapeText(current.find(l => l.name === 'SUMMARY')?.value ?? 'Untitled event');
+        results.push(recurrenceId
+          ? { event: null, problem: `"${summary}" changes a single occurrence, which is not supported` }
+          : convertEvent(current));
+        current = null;
+      }
+      return;
+    }
+
+    if (current && nestedDepth === 0) current.push(line);
+  });
+
+  return results;
+}
+
+function isSameEvent(a: CalendarEvent, b: CalendarEvent): boolean {
+  return a.title === b.title
+    && a.start === b.start
+    && a.end === b.end
+    && a.details === b.details
+    && a.startTime === b.startTime
+    && a.endTime === b.endTime
+    && a.timeZone === b.timeZone
+    && isSameRecurrence(a.recurrence, b.recurrence);
+}
+
+/**
+ * Decide what importing parsed events would do against the current events:
+ * new UIDs are added, known UIDs with changes are updated (keeping the
+ * existing color and tags, and the goals that progress entries are
+ * recorded against), and everything else is skipped with a reason.
+ */
+export function planImport(parsed: ParsedIcsEvent[], existing: CalendarEvent[]): ImportPlanRow[] {
+  const existingById = new Map(existing.map(event => [event.id, event]));
+  const seen = new Set<string>();
+
+  return parsed.map(({ event, problem }) => {
+    if (!event) return { event: null, action: 'skip', reason: problem ?? 'Could not read event' };
+
+    const [invalid] = validateEvent(event);
+    if (invalid) {
+      return { event, action: 'skip', reason: `Invalid ${invalid.field ?? 'event'}: ${invalid.message}` };
+    }
+
+    if (seen.has(event.id)) {
+      return { event, action: 'skip', reason: 'Duplicate UID in file' };
+    }
+    seen.add(event.id);
+
+    const match = existingById.get(event.id);
+    if (!match) {
+      return { event, action: 'add', reason: problem ?? 'New event' };
+    }
+
+    const updated = { ...event, color: match.color, tags: match.tags, goals: match.goals };
+    if (isSameEvent(updated, match)) {
+      return { event: updated, action: 'skip', reason: 'Already up to date' };
+    }
+    return { event: updated, action: 'update', reason: problem ?? 'Changed since last import' };
+  });
+}
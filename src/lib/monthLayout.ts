@@ -0,0 +1,231 @@
+/**
+ * MONTH LAYOUT
+ * ============
+ *
+ * Week rows and event bars for a month grid, shared by the full-screen
+ * month view (CalendarMonth) and the year overview.
+ *
+ * A month is laid out as weeks of 7 cells holding the day of the month,
+ * with null for the padding cells before the 1st and after the last day.
+ * Multi-day events become one EventBlock per week they touch, stacked
+ * into rows so overlapping events don't collide.
+ *
+ * OVERFLOW:
+ * Month cells have a fixed aspect ratio, so only MAX_BAR_ROWS rows of
+ * bars and CELL_SLOTS lines in total are drawn per cell. Whatever
+ * doesn't fit is counted into a "+N more" line for that day.
+ *
+ * Both bars and tiles take an optional EventFilter (data/categories.ts),
+ * so a filtered month leaves hidden events out everywhere.
+ */
+
+import { CalendarEvent, compareEventTimes, formatDateString } from "@/data/events";
+import { EventFilter } from "@/data/categories";
+import { getEventsForDate } from "@/data/eventStore";
+import { getOccurrenceKey } from "@/lib/recurrence";
+
+// Overflow budget for month cells
+export const MAX_BAR_ROWS = 2; // rows of multi-day bars drawn per week
+export const CELL_SLOTS = 3; // lines per day cell: bar rows, single-day tiles and "+N more"
+
+// Indexed by Date.getDay(); rotated to the configured week start
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * HELPER: Weekday column labels starting at the configured week start
+ */
+export function getWeekdayLabels(weekStartsOn: 0 | 1): string[] {
+  return [...WEEKDAYS.slice(weekStartsOn), ...WEEKDAYS.slice(0, weekStartsOn)];
+}
+
+/**
+ * Day-of-month cells for a month, grouped into weeks
+ */
+export function getMonthWeeks(year: number, month: number, weekStartsOn: 0 | 1): (number | null)[][] {
+  // Get first day of month and total days
+  const firstDay = new Date(year, month, 1);
+  const lastDay = new Date(year, month + 1, 0);
+  const daysInMonth = lastDay.getDate();
+
+  // Calculate starting day offset for the configured week start
+  const startingDayOfWeek = (firstDay.getDay() - weekStartsOn + 7) % 7;
+
+  // Create array of day cells
+  const days: (number | null)[] = [];
+
+  // Add empty cells for days before the first of the month
+  for (let i = 0; i < startingDayOfWeek; i++) {
+    days.push(null);
+  }
+
+  // Add day numbers
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(day);
+  }
+
+  // Fill remaining cells to complete the grid
+  while (days.length % 7 !== 0) {
+    days.push(null);
+  }
+
+  // Group days into weeks
+  const weeks: (number | null)[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7));
+  }
+
+  return weeks;
+}
+
+export interface EventBlock {
+  event: CalendarEvent;
+  startCol: number; // 0-6 column position in this week
+  endCol: number; // 0-6 column position in this week
+  row: number; // row index within the week (for stacking)
+  isStart: boolean; // true if this is where the event actually starts
+  isEnd: boolean; // true if this is where the event actually ends
+}
+
+/**
+ * HELPER: True for blocks drawn as bars: multi-day events, including a
+ * one-day piece of an event that continues into another week or month
+ */
+export function isBarBlock(block: EventBlock): boolean {
+  return block.startCol !== block.endCol || !block.isStart || !block.isEnd;
+}
+
+/**
+ * Calculate event blocks for a given week
+ * Handles events that span across weeks by creating continuation blocks
+ */
+export function getEventBlocksForWeek(
+  weekDays: (number | null)[],
+  year: number,
+  month: number,
+  filter?: EventFilter | null
+): EventBlock[] {
+  const blocks: EventBlock[] = [];
+  const processedEvents = new Set<string>();
+
+  // Get the date range of this week
+  const weekDates: Date[] = [];
+  weekDays.forEach((day, i) => {
+    if (day !== null) {
+      weekDates[i] = new Date(year, month, day);
+    }
+  });
+
+  // Find first and last valid day indices in week
+  const firstValidIdx = weekDays.findIndex(d => d !== null);
+  let lastValidIdx = weekDays.length - 1;
+  while (lastValidIdx >= 0 && weekDays[lastValidIdx] === null) {
+    lastValidIdx--;
+  }
+
+  if (firstValidIdx === -1) return blocks;
+
+  // For each day in the week, check for events
+  weekDays.forEach((day, colIndex) => {
+    if (day === null) return;
+
+    const date = new Date(year, month, day);
+    const dayEvents = getEventsForDate(date, filter);
+
+    dayEvents.forEach(event => {
+      // Create unique key for this event (or occurrence) in this week
+      const weekKey = `${getOccurrenceKey(event)}-week-${weekDays[firstValidIdx]}`;
+      if (processedEvents.has(weekKey)) return;
+      processedEvents.add(weekKey);
+
+      // Find where this event starts and ends within this week
+      let startCol = -1;
+      let endCol = -1;
+      let isStart = false;
+      let isEnd = false;
+
+      for (let i = 0; i < 7; i++) {
+        if (weekDays[i] === null) continue;
+        const cellDate = new Date(year, month, weekDays[i]!);
+        const cellDateStr = formatDateString(cellDate);
+        const eventStartStr = event.start;
+        const eventEndStr = event.end;
+
+        // Check if this cell is within the event range
+        if (cellDateStr >= eventStartStr && cellDateStr <= eventEndStr) {
+          if (startCol === -1) {
+            startCol = i;
+            isStart = cellDateStr === eventStartStr;
+          }
+          endCol = i;
+          isEnd = cellDateStr === eventEndStr;
+        }
+      }
+
+      if (startCol === -1) return; // Event not in this week
+
+      // Assign row (stack events vertically if they overlap).
+      // Single-day events are drawn as tiles, so they don't take up bar rows.
+      let row = 0;
+      const usedRows = blocks
+        .filter(b => {
+          // Check for column overlap
+          return isBarBlock(b) && !(b.endCol < startCol || b.startCol > endCol);
+        })
+        .map(b => b.row);
+
+      while (usedRows.includes(row)) {
+        row++;
+      }
+
+      blocks.push({
+        event,
+        startCol,
+        endCol,
+        row,
+        isStart,
+        isEnd
+      });
+    });
+  });
+
+  // Sort blocks by row for consistent rendering
+  blocks.sort((a, b) => a.row - b.row);
+
+  return blocks;
+}
+
+/**
+ * Get single-day events for a specific day, all-day first, then by start time
+ */
+export function getSingleDayEventsForDate(date: Date, filter?: EventFilter | null): CalendarEvent[] {
+  return getEventsForDate(date, filter).filter(event => event.start === event.end).sort(compareEventTimes);
+}
+
+/**
+ * Split a week's bars into the rows that are drawn and, per column, how
+ * many bars were left out
+ */
+export function limitBarRows(blocks: EventBlock[], maxRows: number): { visible: EventBlock[]; hiddenPerCol: number[] } {
+  const hiddenPerCol = [0, 0, 0, 0, 0, 0, 0];
+  const visible = blocks.filter(block => {
+    if (block.row < maxRows) return true;
+    for (let col = block.startCol; col <= block.endCol; col++) hiddenPerCol[col]++;
+    return false;
+  });
+  return { visible, hiddenPerCol };
+}
+
+/**
+ * The single-day events that fit into a cell's free lines, and how many
+ * events go into its "+N more" line (which takes a line of its own),
+ * counting bars hidden on that day too
+ */
+export function fitDayEvents(
+  events: CalendarEvent[],
+  hiddenBars: number,
+  slots: number
+): { visible: CalendarEvent[]; hiddenCount: number } {
+  const overflows = hiddenBars > 0 || events.length > slots;
+  const shown = overflows ? Math.max(0, slots - 1) : events.length;
+  return { visible: events.slice(0, shown), hiddenCount: events.length - shown + hiddenBars };
+}
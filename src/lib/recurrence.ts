@@ -0,0 +1,259 @@
+/**
+ * RECURRENCE
+ * ==========
+ *
+ * Expands a CalendarEvent with a `recurrence` rule into concrete
+ * occurrences, following iCalendar RRULE semantics for the subset we
+ * support: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY, COUNT, UNTIL
+ * and EXDATE.
+ *
+ * Each occurrence keeps the series' duration (end - start) and is
+ * returned as a copy of the series event with its own start/end and
+ * `occurrenceStart` set, so calendar code can treat it like any other
+ * event.
+ *
+ * Like RFC 5545, COUNT includes occurrences later removed by EXDATE.
+ */
+
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, getDaysInMonth, startOfWeek } from "date-fns";
+import { CalendarEvent, RecurrenceRule, formatDateString, parseDateString } from "@/data/events";
+
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+export type EditScope = 'this' | 'following' | 'all';
+
+// Upper bound on generated periods, so a malformed rule can't hang the UI
+const MAX_PERIODS = 5000;
+
+interface ByDayEntry {
+  ordinal: number | null; // e.g. 2 for "2TU", -1 for "-1FR"
+  weekday: number; // 0 = Monday ... 6 = Sunday
+}
+
+function parseByDay(value: string): ByDayEntry | null {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value.trim().toUpperCase());
+  if (!match) return null;
+  return {
+    ordinal: match[1] ? Number(match[1]) : null,
+    weekday: WEEKDAY_CODES.indexOf(match[2] as typeof WEEKDAY_CODES[number]),
+  };
+}
+
+/**
+ * HELPER: Monday-based weekday index (0 = Monday ... 6 = Sunday)
+ */
+export function getWeekdayIndex(date: Date): number {
+  const day = date.getDay();
+  return day === 0 ? 6 : day - 1;
+}
+
+/**
+ * Candidate start dates for one period of the rule, in ascending order
+ */
+function getPeriodDates(rule: RecurrenceRule, seriesStart: Date, period: number): Date[] {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const byDay = (rule.byDay ?? []).map(parseByDay).filter((entry): entry is ByDayEntry => entry !== null);
+
+  switch (rule.freq) {
+    case 'daily':
+      return [addDays(seriesStart, period * interval)];
+
+    case 'weekly': {
+      const weekStart = addWeeks(startOfWeek(seriesStart, { weekStartsOn: 1 }), period * interval);
+      const weekdays = byDay.length > 0
+        ? [...new Set(byDay.map(entry => entry.weekday))].sort((a, b) => a - b)
+        : [getWeekdayIndex(seriesStart)];
+      return weekdays.map(weekday => addDays(weekStart, weekday));
+    }
+
+    case 'monthly': {
+      const monthStart = addMonths(new Date(seriesStart.getFullYear(), seriesStart.getMonth(), 1), period * interval);
+      const daysInMonth = getDaysInMonth(monthStart);
+
+      if (byDay.length === 0) {
+        // Months without this day (e.g. the 31st) are skipped, as in RFC 5545
+        const day = seriesStart.getDate();
+        return day <= daysInMonth ? [new Date(monthStart.getFullYear(), monthStart.getMonth(), day)] : [];
+      }
+
+      const dates: Date[] = [];
+      byDay.forEach(({ ordinal, weekday }) => {
+        const matches: Date[] = [];
+        for (let day = 1; day <= daysInMonth; day++) {
+          const date = new Date(monthStart.getFullYear(), monthStart.getMonth(), day);
+          if (getWeekdayIndex(date) === weekday) matches.push(date);
+        }
+        if (ordinal === null) {
+          dates.push(...matches);
+        } else {
+          const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+          if (match) dates.push(match);
+        }
+      });
+      return dates.sort((a, b) => a.getTime() - b.getTime());
+    }
+  }
+}
+
+/**
+ * Walk every occurrence start of a series in order until `visit` returns false
+ */
+function forEachOccurrenceStart(event: CalendarEvent, visit: (startStr: string, index: number) => boolean) {
+  const rule = event.recurrence;
+  if (!rule) {
+    visit(event.start, 0);
+    return;
+  }
+
+  const seriesStart = parseDateString(event.start);
+  let index = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of getPeriodDates(rule, seriesStart, period)) {
+      const startStr = formatDateString(date);
+      if (startStr < event.start) continue;
+      if (rule.until && startStr > rule.until) return;
+      if (rule.count !== undefined && index >= rule.count) return;
+      if (!visit(startStr, index)) return;
+      index++;
+    }
+  }
+}
+
+/**
+ * Build the occurrence of a series that starts on `startStr`
+ */
+function toOccurrence(event: CalendarEvent, startStr: string): CalendarEvent {
+  const duration = differenceInCalendarDays(parseDateString(event.end), parseDateString(event.start));
+  return {
+    ...event,
+    start: startStr,
+    end: formatDateString(addDays(parseDateString(startStr), duration)),
+    occurrenceStart: startStr,
+  };
+}
+
+/**
+ * Expand a recurring event into the occurrences overlapping [rangeStart, rangeEnd]
+ * (both YYYY-MM-DD, inclusive). Non-recurring events are returned as-is when they overlap.
+ */
+export function expandOccurrences(event: CalendarEvent, rangeStart: string, rangeEnd: string): CalendarEvent[] {
+  if (!event.recurrence) {
+    return event.end >= rangeStart && event.start <= rangeEnd ? [event] : [];
+  }
+
+  const excluded = new Set(event.recurrence.exdates ?? []);
+  const occurrences: CalendarEvent[] = [];
+
+  forEachOccurrenceStart(event, startStr => {
+    if (startStr > rangeEnd) return false;
+    if (excluded.has(startStr)) return true;
+    const occurrence = toOccurrence(event, startStr);
+    if (occurrence.end >= rangeStart) occurrences.push(occurrence);
+    return true;
+  });
+
+  return occurrences;
+}
+
+/**
+ * HELPER: Stable key for an event or one occurrence of a series
+ */
+export function getOccurrenceKey(event: CalendarEvent): string {
+  return event.occurrenceStart ? `${event.id}@${event.occurrenceStart}` : event.id;
+}
+
+/**
+ * Skip one occurrence of a series (EXDATE)
+ */
+export function excludeOccurrence(series: CalendarEvent, occurrenceStart: string): CalendarEvent {
+  const rule = series.recurrence!;
+  return {
+    ...series,
+    recurrence: { ...rule, exdates: [...new Set([...(rule.exdates ?? []), occurrenceStart])].sort() },
+  };
+}
+
+/**
+ * End a series just before `occurrenceStart`.
+ * Returns the truncated series and the rule the following part should continue with,
+ * or a null series if the split point is the first occurrence (nothing left before it).
+ */
+export function splitSeries(series: CalendarEvent, occurrenceStart: string): {
+  before: CalendarEvent | null;
+  followingRule: RecurrenceRule;
+} {
+  const rule = series.recurrence!;
+
+  let occurrencesBefore = 0;
+  forEachOccurrenceStart(series, (startStr, index) => {
+    if (startStr >= occurrenceStart) return false;
+    occurrencesBefore = index + 1;
+    return true;
+  });
+
+  const followingRule: RecurrenceRule = {
+    ...rule,
+    count: rule.count !== undefined ? Math.max(1, rule.count - occurrencesBefore) : undefined,
+    exdates: rule.exdates?.filter(date => date >= occurrenceStart),
+  };
+
+  if (occurrencesBefore === 0) {
+    return { before: null, followingRule };
+  }
+
+  const before: CalendarEvent = {
+    ...series,
+    recurrence: {
+      ...rule,
+      count: rule.count !== undefined ? occurrencesBefore : undefined,
+      until: rule.count !== undefined ? rule.until : formatDateString(addDays(parseDateString(occurrenceStart), -1)),
+      exdates: rule.exdates?.filter(date => date < occurrenceStart),
+    },
+  };
+
+  return { before, followingRule };
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const ORDINAL_LABELS: Record<string, string> = { '1': '1st', '2': '2nd', '3': '3rd', '4': '4th', '5': '5th', '-1': 'last' };
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Tue, Thu, until 2026-09-30"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.freq];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  const byDay = (rule.byDay ?? []).map(parseByDay).filter((entry): entry is ByDayEntry => entry !== null);
+  if (byDay.length > 0) {
+    const days = byDay.map(({ ordinal, weekday }) =>
+      ordinal === null
+        ? WEEKDAY_LABELS[weekday]
+        : `${ORDINAL_LABELS[String(ordinal)] ?? `#${ordinal}`} ${WEEKDAY_LABELS[weekday]}`
+    );
+    text += ` on ${days.join(', ')}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until) {
+    text += `, until ${rule.until}`;
+  }
+
+  return text;
+}
+
+/**
+ * HELPER: Compare two rules field by field (key order and defaults don't matter)
+ */
+export function isSameRecurrence(a: RecurrenceRule | undefined, b: RecurrenceRule | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return a.freq === b.freq
+    && (a.interval ?? 1) === (b.interval ?? 1)
+    && (a.byDay ?? []).join(',') === (b.byDay ?? []).join(',')
+    && a.count === b.count
+    && (a.until ?? '') === (b.until ?? '')
+    && (a.exdates ?? []).join(',') === (b.exdates ?? []).join(',');
+}
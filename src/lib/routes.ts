@@ -0,0 +1,131 @@
+/**
+ * ROUTES
+ * ======
+ *
+ * URL shapes for deep links, and parsers for their parameters:
+ *
+ *   /2026                 a year (opens on the current month)
+ *   /2026/10              a month, 1-based
+ *   /2026/agenda          the agenda (list) view of a year
+ *   /2026/overview        all twelve months on one screen
+ *   /2026/stats           training volume and load charts
+ *   /2026/habits          daily habits with streaks and heatmaps
+ *   /week/2026-10-12      a week, by its first day
+ *   /day/2026-10-18       a day
+ *   /event/:id            an event
+ *   /event/:id?date=...   one occurrence of a recurring event
+ *
+ * Month and year links take a tag filter as a query string:
+ * ?only=swim,run or ?hide=recovery.
+ *
+ * Build links with the helpers below rather than by hand so the
+ * route definitions in App.tsx stay the only place paths are spelled out.
+ */
+
+import { CalendarEvent, formatDateString, parseDateString } from "@/data/events";
+import { dateStringSchema } from "@/data/eventSchema";
+import { EventFilter, EventFilterMode } from "@/data/categories";
+
+const FILTER_MODES: EventFilterMode[] = ['only', 'hide'];
+
+/**
+ * Router state passed along when an event is opened from the calendar,
+ * so closing it can go back instead of pushing a new entry
+ */
+export interface EventLinkState {
+  year: number;
+}
+
+export function yearPath(year: number): string {
+  return `/${year}`;
+}
+
+/**
+ * HELPER: Path for a month; `month` is 0-indexed like Date.getMonth()
+ */
+export function monthPath(year: number, month: number): string {
+  return `/${year}/${month + 1}`;
+}
+
+export function agendaPath(year: number): string {
+  return `/${year}/agenda`;
+}
+
+export function overviewPath(year: number): string {
+  return `/${year}/overview`;
+}
+
+export function statsPath(year: number): string {
+  return `/${year}/stats`;
+}
+
+export function habitsPath(year: number): string {
+  return `/${year}/habits`;
+}
+
+export function weekPath(weekStart: Date): string {
+  return `/week/${formatDateString(weekStart)}`;
+}
+
+export function dayPath(date: Date): string {
+  return `/day/${formatDateString(date)}`;
+}
+
+export function eventPath(event: CalendarEvent): string {
+  const path = `/event/${encodeURIComponent(event.id)}`;
+  return event.occurrenceStart ? `${path}?date=${event.occurrenceStart}` : path;
+}
+
+/**
+ * HELPER: Whether a URL segment is a usable 4-digit year
+ */
+export function parseYearParam(value: string | undefined): number | null {
+  if (!value || !/^\d{4}$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * HELPER: "10" -> 9 (0-indexed); null unless it is a month number 1-12
+ */
+export function parseMonthParam(value: string | undefined): number | null {
+  if (!value || !/^\d{1,2}$/.test(value)) return null;
+  const month = Number(value);
+  return month >= 1 && month <= 12 ? month - 1 : null;
+}
+
+/**
+ * HELPER: "2026-10-18" -> local Date; null unless it is a real YYYY-MM-DD date
+ */
+export function parseDateParam(value: string | undefined): Date | null {
+  if (!value || !dateStringSchema.safeParse(value).success) return null;
+  return parseDateString(value);
+}
+
+/**
+ * HELPER: The year a path shows, for views outside the route tree
+ * (the command palette): the year segment, or the year of a week or
+ * day link; null for other paths
+ */
+export function getPathYear(pathname: string): number | null {
+  const [first, second] = pathname.split('/').filter(Boolean);
+  if (first === 'week' || first === 'day') return parseDateParam(second)?.getFullYear() ?? null;
+  return parseYearParam(first);
+}
+
+/**
+ * HELPER: The tag filter in a query string; null when there is none
+ */
+export function parseFilterParams(params: URLSearchParams): EventFilter | null {
+  for (const mode of FILTER_MODES) {
+    const tags = (params.get(mode) ?? '').split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tags.length > 0) return { mode, tags };
+  }
+  return null;
+}
+
+/**
+ * HELPER: Query string for a tag filter, e.g. "?hide=recovery"; empty without one
+ */
+export function filterSearch(filter: EventFilter | null): string {
+  return filter ? `?${filter.mode}=${filter.tags.map(encodeURIComponent).join(',')}` : '';
+}
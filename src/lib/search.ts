@@ -0,0 +1,91 @@
+/**
+ * SEARCH
+ * ======
+ *
+ * Matching for the command palette. Titles are matched fuzzily, so
+ * "frst ultr" finds "First 100km Ultra"; details are matched by words,
+ * since a subsequence over a long text matches almost anything, and
+ * the hit comes with a snippet of the text around it.
+ */
+
+import { CalendarEvent } from "@/data/events";
+import { getDetailsPreview } from "@/lib/agenda";
+
+const SNIPPET_CONTEXT = 40; // characters shown either side of a details match
+const DETAILS_SCORE = 1; // below any title match
+
+export interface EventSearchResult {
+  event: CalendarEvent;
+  score: number;
+  snippet: string | null; // details around the match, when the title didn't match
+}
+
+/**
+ * HELPER: Lowercase, without accents, so "Ötztal" matches "otztal"
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Score how well `query` matches `text` as a subsequence, or null if it
+ * doesn't. Consecutive characters, word starts and a plain substring
+ * match score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = normalize(query).replace(/\s+/g, '');
+  const haystack = normalize(text);
+  if (!needle) return null;
+
+  let score = 0;
+  let position = -1;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position + 1);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === position + 1) score += 2;
+    if (index === 0 || !/[a-z0-9]/.test(haystack[index - 1])) score += 3;
+    position = index;
+  }
+
+  if (haystack.includes(normalize(query).trim())) score += 10;
+  return score;
+}
+
+/**
+ * HELPER: The text around a match, with ellipses where it was cut
+ */
+function getSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Events matching a query, best first (ties by start date)
+ */
+export function searchEvents(events: CalendarEvent[], query: string, limit = 20): EventSearchResult[] {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const results: EventSearchResult[] = [];
+  events.forEach(event => {
+    const titleScore = fuzzyScore(query, event.title);
+    if (titleScore !== null) {
+      results.push({ event, score: DETAILS_SCORE + titleScore, snippet: null });
+      return;
+    }
+
+    const text = getDetailsPreview(event.details, Infinity);
+    const normalized = normalize(text);
+    if (!words.every(word => normalized.includes(word))) return;
+
+    // Stripping accents keeps the length of precomposed letters, so indices line up with `text`
+    results.push({ event, score: DETAILS_SCORE, snippet: getSnippet(text, normalized.indexOf(words[0]), words[0].length) });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.event.start.localeCompare(b.event.start))
+    .slice(0, limit);
+}
@@ -0,0 +1,188 @@
+/**
+ * TIMES AND TIME ZONES
+ * ====================
+ *
+ * Formatting for timed events. An event's dates and times are wall-clock
+ * values in its `timeZone`, or in the viewer's zone when it has none.
+ * They are shown as written, with the zone's short name when it isn't
+ * the viewer's: "05:00–07:30 GMT+2".
+ *
+ * zonedTimeToDate turns a wall-clock time in a zone into an instant,
+ * for the "your time" hint and for iCalendar export.
+ */
+
+import { format } from "date-fns";
+import { CalendarEvent, isMultiDayEvent } from "@/data/events";
+
+/**
+ * HELPER: The viewer's IANA time zone, e.g. "America/Denver"
+ */
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * HELPER: True when times in this zone read the same for the viewer
+ */
+export function isViewerTimeZone(timeZone: string | undefined): boolean {
+  return !timeZone || timeZone === getViewerTimeZone();
+}
+
+/**
+ * HELPER: "07:30" -> 450
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * HELPER: 450 -> "07:30"
+ */
+export function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * HELPER: Year, month, day, hour and minute the clocks in a zone show at an instant
+ */
+function getWallClockParts(instant: Date, timeZone: string): number[] {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return [get('year'), get('month'), get('day'), get('hour'), get('minute')];
+}
+
+/**
+ * HELPER: Minutes a zone is ahead of UTC at a given instant (negative west of Greenwich)
+ */
+export function getZoneOffsetMinutes(timeZone: string, instant: Date): number {
+  const [year, month, day, hours, minutes] = getWallClockParts(instant, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  return Math.round((wallClock - instant.getTime()) / 60000);
+}
+
+/**
+ * Offset changes (DST starts and ends) of a zone during a calendar year,
+ * found by comparing the offset day by day and narrowing each change to the minute
+ */
+export function getZoneTransitions(
+  timeZone: string,
+  year: number
+): { instant: Date; offsetFrom: number; offsetTo: number }[] {
+  const transitions: { instant: Date; offsetFrom: number; offsetTo: number }[] = [];
+  const day = 86400000;
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = getZoneOffsetMinutes(timeZone, new Date(previous));
+
+  for (let time = previous + day; time <= Date.UTC(year, 11, 31, 23, 59); time += day) {
+    const offset = getZoneOffsetMinutes(timeZone, new Date(time));
+    if (offset !== previousOffset) {
+      // The change lies in (low, high]; halve the window down to a minute
+      let low = previous;
+      let high = time;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (getZoneOffsetMinutes(timeZone, new Date(middle)) === previousOffset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ instant: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+    }
+    previous = time;
+    previousOffset = offset;
+  }
+  return transitions;
+}
+
+/**
+ * The date (YYYY-MM-DD) and time (HH:MM) the clocks in `timeZone` show at
+ * an instant. Without a zone the viewer's clock is read.
+ */
+export function getZonedDateTime(instant: Date, timeZone?: string): { date: string; time: string } {
+  const [year, month, day, hours, minutes] = timeZone
+    ? getWallClockParts(instant, timeZone)
+    : [instant.getFullYear(), instant.getMonth() + 1, instant.getDate(), instant.getHours(), instant.getMinutes()];
+  return {
+    date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    time: minutesToTime(hours * 60 + minutes),
+  };
+}
+
+/**
+ * The instant at which the clocks in `timeZone` show `dateStr` `time`.
+ * Without a zone the time is read in the viewer's zone.
+ */
+export function zonedTimeToDate(dateStr: string, time: string, timeZone?: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  if (!timeZone) return new Date(year, month - 1, day, hours, minutes);
+
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const offset = getZoneOffsetMinutes(timeZone, new Date(wallClock));
+  const instant = wallClock - offset * 60000;
+  // The first guess can land on the other side of a DST change; correct it once
+  const corrected = getZoneOffsetMinutes(timeZone, new Date(instant));
+  return new Date(corrected === offset ? instant : wallClock - corrected * 60000);
+}
+
+/**
+ * HELPER: Short zone name on a given day, e.g. "CEST" or "GMT+2" depending on the locale
+ */
+export function getTimeZoneLabel(timeZone: string, date: Date): string {
+  const parts = new Intl.DateTimeFormat(undefined, { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+/**
+ * HELPER: "05:00" or "05:00–07:30"; empty for all-day events.
+ * Multi-day events show the start time only, since the end is on another day.
+ */
+export function formatTimeRange(event: CalendarEvent): string {
+  if (!event.startTime) return '';
+  if (!event.endTime || event.endTime === event.startTime || isMultiDayEvent(event)) return event.startTime;
+  return `${event.startTime}–${event.endTime}`;
+}
+
+/**
+ * HELPER: The zone's short name when the event's times aren't in the viewer's zone, else null
+ */
+export function getEventZoneLabel(event: CalendarEvent): string | null {
+  if (!event.startTime || isViewerTimeZone(event.timeZone)) return null;
+  return getTimeZoneLabel(event.timeZone!, zonedTimeToDate(event.start, event.startTime, event.timeZone));
+}
+
+/**
+ * HELPER: Time range plus zone label, e.g. "05:00–07:30 GMT+2"; empty for all-day events
+ */
+export function formatEventTime(event: CalendarEvent): string {
+  const zone = getEventZoneLabel(event);
+  return zone ? `${formatTimeRange(event)} ${zone}` : formatTimeRange(event);
+}
+
+/**
+ * The start in the viewer's own time when the event is in another zone,
+ * e.g. "Fri 23:00 your time"; null for all-day events and local times.
+ * The weekday is added when the day differs.
+ */
+export function formatViewerStart(event: CalendarEvent): string | null {
+  if (!event.startTime || isViewerTimeZone(event.timeZone)) return null;
+
+  const instant = zonedTimeToDate(event.start, event.startTime, event.timeZone);
+  const sameDay = format(instant, 'yyyy-MM-dd') === event.start;
+  return `${format(instant, sameDay ? 'HH:mm' : 'EEE HH:mm')} your time`;
+}
+
+/**
+ * HELPER: Every IANA zone the runtime knows, for pickers; empty where unsupported
+ */
+export function getTimeZoneNames(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [];
+}
@@ -0,0 +1,294 @@
+/**
+ * TRAINING STATS
+ * ==============
+ *
+ * Series for the stats page (pages/Stats.tsx), computed from the
+ * training log (data/workouts.ts) and the plan's events:
+ *
+ * - volume: hours or kilometers per sport, by week or by month
+ * - cumulative distance through the year, next to the distance the
+ *   events' km goals add up to (see data/goals.ts)
+ * - training load: a daily load with its fitness and fatigue trends
+ * - phases: multi-day events as date ranges, for background bands
+ *
+ * TRAINING LOAD:
+ * Each session's load is minutes × RPE ("session RPE"); sessions without
+ * an RPE count as moderate (DEFAULT_RPE). From the daily loads:
+ *
+ *   ATL (acute load, fatigue)   exponential average over 7 days
+ *   CTL (chronic load, fitness) exponential average over 42 days
+ *   TSB (balance, form)         yesterday's CTL - yesterday's ATL
+ *
+ * The averages start at the first logged session, so a year's chart
+ * carries over the fitness built at the end of the previous one.
+ *
+ * GOAL LINES:
+ * A goal counts toward distance when its metric is in km: "km" for all
+ * sports, "km run" or "km swim" for one. Its target is spread evenly
+ * over the days it covers (a week goal adds a seventh of the target
+ * each day of the event), so the line shows where the plan expects
+ * the running total to be.
+ */
+
+import { addDays, endOfWeek, getDaysInMonth, startOfWeek } from "date-fns";
+import { CalendarEvent, formatDateString, isMultiDayEvent, parseDateString } from "@/data/events";
+import { getEventsInRange } from "@/data/eventStore";
+import { EventGoal } from "@/data/goals";
+import { WORKOUT_SPORTS, Workout, WorkoutSport, groupWorkoutsByDate } from "@/data/workouts";
+import { getOccurrenceKey } from "@/lib/recurrence";
+
+export type VolumeMetric = 'hours' | 'km';
+export type VolumeBucket = 'week' | 'month';
+
+/**
+ * One bar group of the volume chart: the bucket's amount per sport
+ */
+export type VolumeRow = { key: string; label: string; start: string; end: string } & Record<WorkoutSport, number>;
+
+/**
+ * The sports a distance series counts; 'all' for goals in plain "km"
+ */
+export type DistanceScope = WorkoutSport | 'all';
+
+/**
+ * One day of the cumulative distance chart: actual and planned km per scope.
+ * Actual values stop after today (null), planned ones run to the end of the year.
+ */
+export type DistanceRow = { date: string } & Record<string, number | null | string>;
+
+export interface LoadRow {
+  date: string;
+  load: number;
+  atl: number;
+  ctl: number;
+  tsb: number;
+}
+
+export interface PhaseBand {
+  key: string;
+  title: string;
+  color: string;
+  start: string; // YYYY-MM-DD, cut to the year
+  end: string;
+}
+
+const DEFAULT_RPE = 5;
+const ATL_DAYS = 7;
+const CTL_DAYS = 42;
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * HELPER: Every date of a year, as YYYY-MM-DD
+ */
+function getYearDates(year: number): string[] {
+  const dates: string[] = [];
+  for (let date = new Date(year, 0, 1); date.getFullYear() === year; date = addDays(date, 1)) {
+    dates.push(formatDateString(date));
+  }
+  return dates;
+}
+
+/**
+ * HELPER: A row with every sport at zero
+ */
+function emptySports(): Record<WorkoutSport, number> {
+  return Object.fromEntries(WORKOUT_SPORTS.map(sport => [sport.id, 0])) as Record<WorkoutSport, number>;
+}
+
+/**
+ * Hours or kilometers per sport for each week or month of a year.
+ * The first and last weeks may start or end in the neighboring years;
+ * pass the year's workouts only to count just its days.
+ */
+export function getVolume(
+  workouts: Workout[],
+  year: number,
+  bucket: VolumeBucket,
+  metric: VolumeMetric,
+  weekStartsOn: 0 | 1
+): VolumeRow[] {
+  const rows: VolumeRow[] = [];
+  if (bucket === 'month') {
+    MONTH_LABELS.forEach((label, month) => {
+      const start = formatDateString(new Date(year, month, 1));
+      const end = formatDateString(new Date(year, month + 1, 0));
+      rows.push({ key: start, label, start, end, ...emptySports() });
+    });
+  } else {
+    const yearEnd = new Date(year, 11, 31);
+    for (let weekStart = startOfWeek(new Date(year, 0, 1), { weekStartsOn }); weekStart <= yearEnd; weekStart = addDays(weekStart, 7)) {
+      const start = formatDateString(weekStart);
+      const end = formatDateString(endOfWeek(weekStart, { weekStartsOn }));
+      const label = `${MONTH_LABELS[weekStart.getMonth()]} ${weekStart.getDate()}`;
+      rows.push({ key: start, label, start, end, ...emptySports() });
+    }
+  }
+
+  workouts.forEach(workout => {
+    const row = rows.find(candidate => workout.date >= candidate.start && workout.date <= candidate.end);
+    if (!row) return;
+    const amount = metric === 'hours' ? workout.durationMinutes / 60 : workout.distanceKm ?? 0;
+    row[workout.sport] += amount;
+  });
+
+  rows.forEach(row => WORKOUT_SPORTS.forEach(({ id }) => {
+    row[id] = Number(row[id].toFixed(1));
+  }));
+  return rows;
+}
+
+/**
+ * HELPER: Which sports a goal's distance counts, or null when it isn't in km
+ */
+export function getDistanceScope(goal: EventGoal): DistanceScope | null {
+  const [unit, ...rest] = goal.metric.toLowerCase().split(/\s+/);
+  if (unit !== 'km') return null;
+  const words = rest.join(' ');
+  if (!words) return 'all';
+  return WORKOUT_SPORTS.find(sport => words.includes(sport.id) || words.includes(sport.label.toLowerCase()))?.id ?? null;
+}
+
+/**
+ * HELPER: How much of a goal's target falls on one day of its event
+ */
+function getDailyTarget(goal: EventGoal, event: CalendarEvent, dateStr: string): number {
+  switch (goal.period) {
+    case 'day':
+      return goal.target;
+    case 'week':
+      return goal.target / 7;
+    case 'month':
+      return goal.target / getDaysInMonth(parseDateString(dateStr));
+    default: {
+      const days = Math.round((parseDateString(event.end).getTime() - parseDateString(event.start).getTime()) / 86400000) + 1;
+      return goal.target / days;
+    }
+  }
+}
+
+/**
+ * Running distance totals through a year, per scope, with the goal line
+ * of each scope that has km goals. Without any km goals, one scope per
+ * sport with logged distance and no goal lines.
+ *
+ * Keys per row: `${scope}` for actual km, `${scope}Goal` for planned km.
+ */
+export function getCumulativeDistance(
+  workouts: Workout[],
+  year: number,
+  today: Date = new Date()
+): { scopes: DistanceScope[]; goalScopes: DistanceScope[]; rows: DistanceRow[] } {
+  const dates = getYearDates(year);
+  const events = getEventsInRange(dates[0], dates[dates.length - 1]);
+
+  // Planned km per scope per day
+  const planned = new Map<DistanceScope, Map<string, number>>();
+  events.forEach(event => {
+    (event.goals ?? []).forEach(goal => {
+      const scope = getDistanceScope(goal);
+      if (!scope) return;
+      const byDate = planned.get(scope) ?? new Map<string, number>();
+      planned.set(scope, byDate);
+      dates
+        .filter(date => date >= event.start && date <= event.end)
+        .forEach(date => byDate.set(date, (byDate.get(date) ?? 0) + getDailyTarget(goal, event, date)));
+    });
+  });
+
+  const goalScopes = Array.from(planned.keys());
+  const loggedSports = WORKOUT_SPORTS
+    .map(sport => sport.id)
+    .filter(sport => workouts.some(workout => workout.sport === sport && workout.distanceKm));
+  const scopes = goalScopes.length > 0 ? goalScopes : loggedSports;
+
+  const todayStr = formatDateString(today);
+  const actualTotals = new Map<DistanceScope, number>();
+  const plannedTotals = new Map<DistanceScope, number>();
+  const workoutsByDate = groupWorkoutsByDate(workouts);
+  const rows = dates.map(date => {
+    const row: DistanceRow = { date };
+    const dayWorkouts = workoutsByDate.get(date) ?? [];
+    scopes.forEach(scope => {
+      const km = dayWorkouts
+        .filter(workout => scope === 'all' || workout.sport === scope)
+        .reduce((sum, workout) => sum + (workout.distanceKm ?? 0), 0);
+      actualTotals.set(scope, (actualTotals.get(scope) ?? 0) + km);
+      row[scope] = date <= todayStr ? Number(actualTotals.get(scope)!.toFixed(1)) : null;
+
+      if (planned.has(scope)) {
+        plannedTotals.set(scope, (plannedTotals.get(scope) ?? 0) + (planned.get(scope)!.get(date) ?? 0));
+        row[`${scope}Goal`] = Number(plannedTotals.get(scope)!.toFixed(1));
+      }
+    });
+    return row;
+  });
+
+  return { scopes, goalScopes, rows };
+}
+
+/**
+ * HELPER: Session RPE load of one workout
+ */
+export function getWorkoutLoad(workout: Workout): number {
+  return workout.durationMinutes * (workout.rpe ?? DEFAULT_RPE);
+}
+
+/**
+ * Daily load with ATL, CTL and TSB for each day of a year
+ */
+export function getTrainingLoad(workouts: Workout[], year: number): LoadRow[] {
+  const loadByDate = new Map<string, number>();
+  workouts.forEach(workout => {
+    loadByDate.set(workout.date, (loadByDate.get(workout.date) ?? 0) + getWorkoutLoad(workout));
+  });
+
+  const dates = getYearDates(year);
+  const firstLogged = workouts.reduce<string | null>(
+    (first, workout) => (first === null || workout.date < first ? workout.date : first),
+    null
+  );
+
+  // Warm the averages up from the first session when it predates the year
+  let atl = 0;
+  let ctl = 0;
+  if (firstLogged && firstLogged < dates[0]) {
+    for (let date = parseDateString(firstLogged); formatDateString(date) < dates[0]; date = addDays(date, 1)) {
+      const load = loadByDate.get(formatDateString(date)) ?? 0;
+      atl += (load - atl) / ATL_DAYS;
+      ctl += (load - ctl) / CTL_DAYS;
+    }
+  }
+
+  return dates.map(date => {
+    const load = loadByDate.get(date) ?? 0;
+    const tsb = ctl - atl;
+    atl += (load - atl) / ATL_DAYS;
+    ctl += (load - ctl) / CTL_DAYS;
+    return {
+      date,
+      load: Math.round(load),
+      atl: Number(atl.toFixed(1)),
+      ctl: Number(ctl.toFixed(1)),
+      tsb: Number(tsb.toFixed(1)),
+    };
+  });
+}
+
+/**
+ * Multi-day events (and occurrences) of a year, cut to the year, in date order
+ */
+export function getPhaseBands(year: number): PhaseBand[] {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+
+  return getEventsInRange(yearStart, yearEnd)
+    .filter(isMultiDayEvent)
+    .map(event => ({
+      key: getOccurrenceKey(event),
+      title: event.title,
+      color: event.color,
+      start: event.start < yearStart ? yearStart : event.start,
+      end: event.end > yearEnd ? yearEnd : event.end,
+    }));
+}
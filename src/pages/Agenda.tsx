@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Repeat } from "lucide-react";
+import { ViewHeader } from "@/components/ViewHeader";
+import { CalendarEvent, formatDateString, isMultiDayEvent, parseDateString } from "@/data/events";
+import { getEventsInRange } from "@/data/eventStore";
+import { getMantraForMonth, getYearConfig } from "@/data/years";
+import { useEvents } from "@/hooks/use-events";
+import { useChecklists } from "@/hooks/use-checklists";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useYearAccent } from "@/hooks/use-year-accent";
+import { describeRelative, groupAgenda } from "@/lib/agenda";
+import { getChecklistProgress } from "@/lib/checklist";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import { EventLinkState, agendaPath, eventPath, monthPath, parseYearParam } from "@/lib/routes";
+import { formatEventTime } from "@/lib/time";
+import NotFound from "./NotFound";
+
+/**
+ * AGENDA VIEW
+ * ===========
+ *
+ * The year's events as a chronological list, grouped by month and
+ * week, each with a relative label ("in 3 days", "ongoing, day 12 of 58").
+ * The default view on mobile, where month grid titles are too small.
+ *
+ * For the current year the list starts today; earlier events can be
+ * shown on request. Other years are listed in full.
+ */
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * HELPER: "Mar 2", "Mar 2 · 07:30–09:00" or "Mar 2 – Mar 8"
+ */
+function formatAgendaDates(event: CalendarEvent): string {
+  const start = format(parseDateString(event.start), 'MMM d');
+  const dates = isMultiDayEvent(event) ? `${start} – ${format(parseDateString(event.end), 'MMM d')}` : start;
+  return event.startTime ? `${dates} · ${formatEventTime(event)}` : dates;
+}
+
+export default function Agenda() {
+  const params = useParams();
+  const year = parseYearParam(params.year);
+
+  if (year === null) return <NotFound />;
+
+  return <YearAgenda key={year} year={year} />;
+}
+
+function YearAgenda({ year }: { year: number }) {
+  const config = getYearConfig(year);
+  const navigate = useNavigate();
+  const [showPast, setShowPast] = useState(false);
+  const checklists = useChecklists();
+  // Re-render whenever events are created, edited or deleted
+  const { isLoading } = useEvents();
+
+  useYearAccent(config);
+  const eventColors = useEventColors();
+
+  const today = new Date();
+  const todayStr = formatDateString(today);
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const isCurrentYear = today.getFullYear() === year;
+
+  const rangeStart = isCurrentYear && !showPast ? todayStr : yearStart;
+  const months = groupAgenda(getEventsInRange(rangeStart, yearEnd), rangeStart, config.weekStartsOn);
+  const hasEarlierEvents = isCurrentYear && !showPast && getEventsInRange(yearStart, todayStr).some(event => event.end < todayStr);
+
+  const handleEventClick = (event: CalendarEvent) => {
+    const state: EventLinkState = { year };
+    navigate(eventPath(event), { state });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ViewHeader
+        title={String(year)}
+        subtitle={config.title}
+        backTo={monthPath(year, isCurrentYear ? today.getMonth() : 0)}
+        backLabel="Months"
+        prevTo={agendaPath(year - 1)}
+        prevLabel={`Go to ${year - 1}`}
+        nextTo={agendaPath(year + 1)}
+        nextLabel={`Go to ${year + 1}`}
+        className="max-w-2xl"
+      />
+
+      <main className="max-w-2xl mx-auto px-4 py-6">
+        {hasEarlierEvents && (
+          <button
+            onClick={() => setShowPast(true)}
+            className="w-full mb-6 py-2 rounded-md text-xs font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 border border-dashed border-border transition-colors"
+          >
+            Show earlier events
+          </button>
+        )}
+
+        {!isLoading && months.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-16">
+            {isCurrentYear && !showPast ? `No upcoming events in ${year}.` : `No events in ${year}.`}
+          </p>
+        )}
+
+        {months.map(month => {
+          const mantra = getMantraForMonth(config, month.month);
+
+          return (
+            <section key={`${month.year}-${month.month}`} className="mb-8">
+              <header className="mb-3">
+                <h2 className="text-2xl font-serif font-semibold text-foreground tracking-tight">
+                  {MONTH_NAMES[month.month]}
+                </h2>
+                {mantra && <p className="text-xs text-muted-foreground italic font-serif">{mantra}</p>}
+              </header>
+
+              {month.weeks.map(week => (
+                <div key={week.weekStart.getTime()} className="mb-4">
+                  <h3 className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground/70 mb-1.5">
+                    {week.label}
+                  </h3>
+                  <ul className="space-y-1.5">
+                    {week.events.map(event => {
+                      const progress = getChecklistProgress(event, checklists);
+                      const isPast = event.end < todayStr;
+
+                      return (
+                        <li key={getOccurrenceKey(event)}>
+                          <button
+                            onClick={() => handleEventClick(event)}
+                            className={`w-full text-left flex items-stretch gap-3 rounded-md bg-card border border-border/40 hover:border-primary/40 transition-colors overflow-hidden ${isPast ? 'opacity-60' : ''}`}
+                          >
+                            <span className="w-1 flex-shrink-0" style={{ backgroundColor: eventColors(event.color).solid }} />
+                            <span className="flex-1 min-w-0 py-2">
+                              <span className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+                                <span className="truncate">{event.title}</span>
+                                {event.recurrence && <Repeat className="w-3 h-3 flex-shrink-0 text-muted-foreground" aria-label="Repeats" />}
+                              </span>
+                              <span className="block text-xs text-muted-foreground font-mono">
+                                {formatAgendaDates(event)}
+                              </span>
+                            </span>
+                            <span className="flex flex-col items-end justify-center gap-0.5 pr-3 py-2 flex-shrink-0">
+                              <span className="text-xs text-foreground/70">{describeRelative(event, today)}</span>
+                              {progress && (
+                                <span className="text-[10px] font-mono text-muted-foreground">
+                                  {progress.done}/{progress.total} done
+                                </span>
+                              )}
+                            </span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { addDays, format, isSameDay, startOfWeek } from "date-fns";
+import { Repeat } from "lucide-react";
+import { Markdown } from "@/components/Markdown";
+import { ViewHeader } from "@/components/ViewHeader";
+import { CalendarEvent, formatDateString, isMultiDayEvent, isTimedEvent, parseDateString } from "@/data/events";
+import { getEventsInRange } from "@/data/eventStore";
+import { getYearConfig } from "@/data/years";
+import { useEvents } from "@/hooks/use-events";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+import { useYearAccent } from "@/hooks/use-year-accent";
+import { getDetailsPreview, getPhaseDay } from "@/lib/agenda";
+import { describeRecurrence, getOccurrenceKey } from "@/lib/recurrence";
+import { EventLinkState, dayPath, eventPath, parseDateParam, weekPath } from "@/lib/routes";
+import { formatEventTime, timeToMinutes } from "@/lib/time";
+import NotFound from "./NotFound";
+
+/**
+ * DAY VIEW
+ * ========
+ *
+ * Everything on one day: the phases (multi-day events) it falls in,
+ * with how far into each it is, the day's all-day events with their
+ * full details, and its timed events on an hourly grid.
+ *
+ * The grid places events at their own wall-clock times; events kept in
+ * another time zone carry the zone's name next to the time.
+ *
+ * KEYBOARD:
+ * ← / →      previous / next day
+ * t          today
+ * Esc / ↑    back to the week
+ */
+
+// Time grid dimensions
+const HOUR_HEIGHT = 48; // px per hour
+const DEFAULT_DURATION = 60; // minutes shown for events without an end time
+const MIN_BLOCK_MINUTES = 30; // shortest block, so titles stay readable
+const DAY_START_HOUR = 6; // the grid always covers at least 06:00-22:00
+const DAY_END_HOUR = 22;
+
+interface TimedBlock {
+  event: CalendarEvent;
+  startMinutes: number;
+  endMinutes: number;
+  column: number;
+  columns: number; // columns in its group of overlapping events
+}
+
+/**
+ * Lay out timed events side by side where they overlap: each group of
+ * overlapping events is split into as many columns as it needs.
+ */
+function layoutTimedEvents(events: CalendarEvent[]): TimedBlock[] {
+  const blocks = events
+    .map(event => {
+      const startMinutes = timeToMinutes(event.startTime!);
+      const endMinutes = event.endTime ? timeToMinutes(event.endTime) : startMinutes + DEFAULT_DURATION;
+      return {
+        event,
+        startMinutes,
+        endMinutes: Math.min(24 * 60, Math.max(endMinutes, startMinutes + MIN_BLOCK_MINUTES)),
+        column: 0,
+        columns: 1,
+      };
+    })
+    .sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+
+  let group: TimedBlock[] = [];
+  let columnEnds: number[] = [];
+  const closeGroup = () => {
+    group.forEach(block => { block.columns = columnEnds.length; });
+    group = [];
+    columnEnds = [];
+  };
+
+  blocks.forEach(block => {
+    if (group.length > 0 && block.startMinutes >= Math.max(...columnEnds)) closeGroup();
+    const free = columnEnds.findIndex(end => end <= block.startMinutes);
+    block.column = free === -1 ? columnEnds.length : free;
+    columnEnds[block.column] = block.endMinutes;
+    group.push(block);
+  });
+  closeGroup();
+
+  return blocks;
+}
+
+export default function Day() {
+  const params = useParams();
+  const date = parseDateParam(params.date);
+
+  if (!date) return <NotFound />;
+
+  return <DayView key={formatDateString(date)} date={date} />;
+}
+
+function DayView({ date }: { date: Date }) {
+  const config = getYearConfig(date.getFullYear());
+  const navigate = useNavigate();
+  // Re-render whenever events are created, edited or deleted
+  useEvents();
+
+  useYearAccent(config);
+  const eventColors = useEventColors();
+
+  const dateStr = formatDateString(date);
+  const events = getEventsInRange(dateStr, dateStr);
+  const phases = events.filter(isMultiDayEvent);
+  const singles = events.filter(event => !isMultiDayEvent(event));
+  const allDay = singles.filter(event => !isTimedEvent(event));
+  const timed = singles.filter(isTimedEvent);
+  const weekStart = startOfWeek(date, { weekStartsOn: config.weekStartsOn });
+
+  const handleEventClick = (event: CalendarEvent) => {
+    const state: EventLinkState = { year: parseDateString(event.start).getFullYear() };
+    navigate(eventPath(event), { state });
+  };
+
+  useKeyboardShortcuts({
+    ArrowLeft: () => navigate(dayPath(addDays(date, -1))),
+    ArrowRight: () => navigate(dayPath(addDays(date, 1))),
+    ArrowUp: () => navigate(weekPath(weekStart)),
+    Escape: () => navigate(weekPath(weekStart)),
+    t: () => navigate(dayPath(new Date())),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ViewHeader
+        title={format(date, 'EEEE, MMMM d')}
+        subtitle={String(date.getFullYear())}
+        backTo={weekPath(weekStart)}
+        backLabel="Week"
+        prevTo={dayPath(addDays(date, -1))}
+        prevLabel="Previous day"
+        nextTo={dayPath(addDays(date, 1))}
+        nextLabel="Next day"
+        className="max-w-2xl"
+      />
+
+      <main className="max-w-2xl mx-auto px-4 py-6 space-y-8">
+        {events.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-16">Nothing planned for this day.</p>
+        )}
+
+        {/* Phases this day falls in */}
+        {phases.length > 0 && (
+          <section>
+            <h2 className="text-xs font-mono uppercase tracking-wider text-muted-foreground/70 mb-2">Phases</h2>
+            <ul className="space-y-2">
+              {phases.map(event => {
+                const { day, total } = getPhaseDay(event, date);
+                return (
+                  <li key={getOccurrenceKey(event)}>
+                    <button
+                      onClick={() => handleEventClick(event)}
+                      className="w-full text-left rounded-md bg-card border border-border/40 hover:border-primary/40 transition-colors p-3"
+                    >
+                      <span className="flex items-center justify-between gap-3">
+                        <span className="flex items-center gap-2 min-w-0">
+                          <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: eventColors(event.color).solid }} />
+                          <span className="text-sm font-medium text-foreground truncate">{event.title}</span>
+                        </span>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">Day {day} of {total}</span>
+                      </span>
+                      <span className="block mt-2 h-1 rounded-full bg-muted/30 overflow-hidden">
+                        <span
+                          className="block h-full rounded-full"
+                          style={{ width: `${(day / total) * 100}%`, backgroundColor: eventColors(event.color).bar }}
+                        />
+                      </span>
+                      <span className="block mt-1 text-[11px] font-mono text-muted-foreground">
+                        {format(parseDateString(event.start), 'MMM d')} – {format(parseDateString(event.end), 'MMM d')}
+                        {isTimedEvent(event) && ` · starts ${formatEventTime(event)}`}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {/* The day's all-day events, with full details */}
+        {allDay.length > 0 && (
+          <section>
+            <h2 className="text-xs font-mono uppercase tracking-wider text-muted-foreground/70 mb-2">All day</h2>
+            <ul className="space-y-3">
+              {allDay.map(event => (
+                <li
+                  key={getOccurrenceKey(event)}
+                  className="rounded-md bg-card border border-border/40 border-l-4 p-4"
+                  style={{ borderLeftColor: eventColors(event.color).solid }}
+                >
+                  <button
+                    onClick={() => handleEventClick(event)}
+                    className="text-left text-base font-serif font-semibold text-foreground hover:text-primary transition-colors"
+                  >
+                    {event.title}
+                  </button>
+                  {event.recurrence && (
+                    <p className="flex items-center gap-1.5 text-xs text-muted-foreground mt-0.5">
+                      <Repeat className="w-3 h-3" />
+                      {describeRecurrence(event.recurrence)}
+                    </p>
+                  )}
+                  {event.details && <Markdown content={event.details} className="mt-3" />}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {/* Timed events on an hourly grid */}
+        {timed.length > 0 && (
+          <section>
+            <h2 className="text-xs font-mono uppercase tracking-wider text-muted-foreground/70 mb-2">Schedule</h2>
+            <TimeGrid events={timed} isToday={isSameDay(date, new Date())} onEventClick={handleEventClick} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+interface TimeGridProps {
+  events: CalendarEvent[]; // timed single-day events
+  isToday: boolean; // draw the current time
+  onEventClick: (event: CalendarEvent) => void;
+}
+
+function TimeGrid({ events, isToday, onEventClick }: TimeGridProps) {
+  const eventColors = useEventColors();
+  const blocks = layoutTimedEvents(events);
+  const firstHour = Math.min(DAY_START_HOUR, ...blocks.map(block => Math.floor(block.startMinutes / 60)));
+  const lastHour = Math.max(DAY_END_HOUR, ...blocks.map(block => Math.ceil(block.endMinutes / 60)));
+  const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, i) => firstHour + i);
+  const toPx = (minutes: number) => ((minutes - firstHour * 60) / 60) * HOUR_HEIGHT;
+
+  const now = new Date();
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const showNow = isToday && nowMinutes >= firstHour * 60 && nowMinutes <= lastHour * 60;
+
+  return (
+    <div className="relative" style={{ height: `${(lastHour - firstHour) * HOUR_HEIGHT}px` }}>
+      {/* Hour lines */}
+      {hours.map(hour => (
+        <div key={hour} className="absolute left-0 right-0 border-t border-border/30" style={{ top: `${toPx(hour * 60)}px` }}>
+          <span className="absolute -top-2 left-0 w-10 pr-1 bg-background text-[10px] font-mono text-muted-foreground/70">
+            {String(hour).padStart(2, '0')}:00
+          </span>
+        </div>
+      ))}
+
+      <div className="absolute inset-y-0 left-12 right-0">
+        {blocks.map(block => {
+          const { event } = block;
+          const height = toPx(block.endMinutes) - toPx(block.startMinutes);
+          const preview = getDetailsPreview(event.details);
+          const colors = eventColors(event.color);
+
+          return (
+            <button
+              key={getOccurrenceKey(event)}
+              onClick={() => onEventClick(event)}
+              className="absolute rounded-sm border-l-4 px-2 py-1 text-left overflow-hidden hover:brightness-110 transition-all"
+              style={{
+                top: `${toPx(block.startMinutes)}px`,
+                height: `${height - 2}px`,
+                left: `${(block.column / block.columns) * 100}%`,
+                width: `calc(${100 / block.columns}% - 2px)`,
+                borderColor: colors.solid,
+                backgroundColor: colors.tint,
+              }}
+              title={`${formatEventTime(event)} ${event.title}`}
+            >
+              <span className="block text-[10px] font-mono text-muted-foreground leading-tight">{formatEventTime(event)}</span>
+              <span className="flex items-center gap-1 text-xs font-medium text-foreground leading-tight">
+                <span className="truncate">{event.title}</span>
+                {event.recurrence && <Repeat className="w-3 h-3 flex-shrink-0 text-muted-foreground" aria-label="Repeats" />}
+              </span>
+              {height >= HOUR_HEIGHT * 1.5 && preview && (
+                <span className="block mt-0.5 text-[11px] leading-snug text-muted-foreground line-clamp-2">{preview}</span>
+              )}
+            </button>
+          );
+        })}
+
+        {/* Current time */}
+        {showNow && (
+          <div className="absolute left-0 right-0 border-t-2 border-primary pointer-events-none" style={{ top: `${toPx(nowMinutes)}px` }}>
+            <span className="absolute -left-1 -top-[5px] w-2 h-2 rounded-full bg-primary" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
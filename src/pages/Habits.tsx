@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import { Check, Flame, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ViewHeader } from "@/components/ViewHeader";
+import { HabitHeatmap } from "@/components/HabitHeatmap";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatDateString } from "@/data/events";
+import { HABIT_COLORS, HABIT_SUGGESTIONS, Habit, getHabitStreaks, getNextHabitColor, isCheckedIn } from "@/data/habits";
+import { getYearConfig } from "@/data/years";
+import { useHabitMutations, useHabits } from "@/hooks/use-habits";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useYearAccent } from "@/hooks/use-year-accent";
+import { habitsPath, monthPath, parseYearParam } from "@/lib/routes";
+import NotFound from "./NotFound";
+
+/**
+ * HABITS
+ * ======
+ *
+ * The daily habits of data/habits.ts: add them, check in today, and see
+ * each one's streaks and a heatmap of the year. Check-ins can also be
+ * made from the dots in each month cell (see HabitDots).
+ */
+
+export default function Habits() {
+  const params = useParams();
+  const year = parseYearParam(params.year);
+
+  if (year === null) return <NotFound />;
+
+  return <YearHabits key={year} year={year} />;
+}
+
+function YearHabits({ year }: { year: number }) {
+  const config = getYearConfig(year);
+  const habits = useHabits();
+  const { addHabit, toggleCheckIn, restoreHabit, deleteHabit } = useHabitMutations();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<string | null>(null); // null: the next unused color
+
+  useYearAccent(config);
+  const eventColors = useEventColors();
+
+  const today = new Date();
+  const todayStr = formatDateString(today);
+  const newColor = color ?? getNextHabitColor(habits);
+
+  const handleAdd = (habitName: string) => {
+    const trimmed = habitName.trim();
+    if (!trimmed) return;
+    if (habits.some(habit => habit.name.toLowerCase() === trimmed.toLowerCase())) {
+      toast.error(`"${trimmed}" is already a habit`);
+      return;
+    }
+    addHabit(trimmed, newColor);
+    setName('');
+    setColor(null);
+  };
+
+  const handleDelete = (habit: Habit) => {
+    deleteHabit(habit.id);
+    toast(`Deleted "${habit.name}"`, {
+      action: { label: 'Undo', onClick: () => restoreHabit(habit) },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ViewHeader
+        title={`${year} habits`}
+        subtitle={config.title}
+        backTo={monthPath(year, today.getFullYear() === year ? today.getMonth() : 0)}
+        backLabel="Months"
+        prevTo={habitsPath(year - 1)}
+        prevLabel={`Go to ${year - 1}`}
+        nextTo={habitsPath(year + 1)}
+        nextLabel={`Go to ${year + 1}`}
+        className="max-w-3xl"
+      />
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        {/* New habit */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd(name);
+          }}
+          className="rounded-xl border border-border bg-card p-4 space-y-3"
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="New daily habit, e.g. Meditation practice"
+              aria-label="Habit name"
+              maxLength={60}
+              className="h-9"
+            />
+            <Button type="submit" size="sm" className="h-9" disabled={!name.trim()}>
+              Add
+            </Button>
+          </div>
+          <div className="flex items-center gap-1.5" role="radiogroup" aria-label="Habit color">
+            {HABIT_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={option === newColor}
+                aria-label={`Color ${option}`}
+                onClick={() => setColor(option)}
+                className={`w-5 h-5 rounded-full transition-transform hover:scale-110
+                  ${option === newColor ? 'ring-2 ring-offset-2 ring-offset-card ring-foreground/60' : ''}`}
+                style={{ backgroundColor: eventColors(option).solid }}
+              />
+            ))}
+          </div>
+          {habits.length === 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+              <span>From your manifestation:</span>
+              {HABIT_SUGGESTIONS.map(suggestion => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => handleAdd(suggestion)}
+                  className="px-2 py-0.5 rounded-full border border-border hover:border-primary/60 hover:text-foreground transition-colors"
+                >
+                  + {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
+        </form>
+
+        {habits.map(habit => {
+          const streaks = getHabitStreaks(habit, today);
+          const doneToday = isCheckedIn(habit, todayStr);
+          const yearCount = habit.checkIns.filter(date => date.startsWith(`${year}-`)).length;
+
+          return (
+            <section key={habit.id} className="rounded-xl border border-border bg-card p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: eventColors(habit.color).solid }} />
+                <h2 className="flex-1 min-w-0 truncate text-sm font-serif font-semibold text-foreground">{habit.name}</h2>
+                <Button
+                  size="sm"
+                  variant={doneToday ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => toggleCheckIn(habit.id, todayStr)}
+                  aria-pressed={doneToday}
+                >
+                  <Check className="w-3.5 h-3.5 mr-1" />
+                  {doneToday ? 'Done today' : 'Check in today'}
+                </Button>
+                <button
+                  onClick={() => handleDelete(habit)}
+                  className="p-1.5 rounded text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                  aria-label={`Delete ${habit.name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-4 mb-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1" title="Current streak">
+                  <Flame className={`w-3.5 h-3.5 ${streaks.current > 0 ? 'text-primary' : ''}`} />
+                  <span className="font-mono text-foreground">{streaks.current}</span> day{streaks.current === 1 ? '' : 's'}
+                </span>
+                <span>
+                  Longest <span className="font-mono text-foreground">{streaks.longest}</span>
+                </span>
+                <span>
+                  <span className="font-mono text-foreground">{yearCount}</span> in {year}
+                </span>
+              </div>
+
+              <HabitHeatmap habit={habit} year={year} weekStartsOn={config.weekStartsOn} onToggle={toggleCheckIn} />
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
@@ -1,40 +1,170 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { startOfWeek } from "date-fns";
+import { BarChart3, Download, Flame, LayoutGrid, List, Sparkles } from "lucide-react";
 import { CalendarMonth } from "@/components/CalendarMonth";
+import { WorkoutLogModal } from "@/components/WorkoutLogModal";
 import { CalendarHeader } from "@/components/CalendarHeader";
 import { EventModal } from "@/components/EventModal";
 import { ManifestationModal } from "@/components/ManifestationModal";
-import { CalendarEvent } from "@/data/events";
+import { ImportPreviewModal } from "@/components/ImportPreviewModal";
+import { CalendarEvent, formatDateString, parseDateString } from "@/data/events";
+import { EventFilter, getFilterTags } from "@/data/categories";
+import { getEventsForYear } from "@/data/eventStore";
+import { getMantraForMonth, getYearConfig } from "@/data/years";
+import { useEventMutations, useEvents } from "@/hooks/use-events";
+import { useWorkoutMutations, useWorkouts } from "@/hooks/use-workouts";
+import { CommandAction, useCommandActions } from "@/hooks/use-command-actions";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useYearAccent } from "@/hooks/use-year-accent";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+import { ImportPlanRow, downloadCalendar, parseCalendar, planImport, serializeCalendar } from "@/lib/ics";
+import { expandOccurrences, getOccurrenceKey } from "@/lib/recurrence";
+import { isActivityFile, parseActivityFile, toWorkout } from "@/lib/activities";
+import {
+  EventLinkState,
+  agendaPath,
+  dayPath,
+  eventPath,
+  filterSearch,
+  habitsPath,
+  monthPath,
+  overviewPath,
+  parseFilterParams,
+  parseMonthParam,
+  parseYearParam,
+  statsPath,
+  weekPath,
+} from "@/lib/routes";
+import { toast } from "sonner";
+import NotFound from "./NotFound";
 
 /**
- * HYBRID ATHLETE CALENDAR 2026
- * ============================
+ * YEAR FOCUS CALENDAR
+ * ===================
  * 
- * A full-year calendar displaying January–December 2026.
+ * A full-year calendar displaying January–December of the year in
+ * the URL (/:year). Title, mantras, colors and week start come from
+ * the year's config (see data/years.ts).
  * Each month occupies one full screen (100vh).
  * 
  * AUTO-SCROLL BEHAVIOR:
- * On page load, automatically scrolls to the current month
- * based on today's date. For example, if today is Feb 15,
- * the page opens with February visible.
+ * On page load, automatically scrolls to the month in the URL
+ * (/2026/10), or else to the current month based on today's date.
+ * For example, if today is Feb 15, /2026 opens with February visible.
+ * The URL follows along as the user scrolls.
+ *
+ * DEEP LINKS:
+ * /event/:id opens that event's modal over its year (see lib/routes.ts).
+ * Opening an event from the calendar pushes this URL, so the browser
+ * back button closes the modal.
+ *
+ * On mobile, /:year opens the agenda view instead (see pages/Agenda.tsx).
+ *
+ * KEYBOARD:
+ * w / d open the week or day view (pages/Week.tsx, pages/Day.tsx).
+ *
+ * ICS IMPORT:
+ * Dropping an .ics file anywhere on the page opens a preview of what
+ * would be added, updated or skipped before anything is saved.
+ *
+ * ACTIVITY IMPORT:
+ * Dropping .gpx, .tcx or .fit files (several at once is fine) logs them
+ * as workouts on the day they were recorded (see lib/activities.ts).
+ * Activities already in the training log are skipped.
  */
 
-const YEAR = 2026;
 const MONTHS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
 
+/**
+ * HELPER: Event (or occurrence, when `date` is given) for an /event/:id link
+ */
+function findLinkedEvent(events: CalendarEvent[], id: string, date: string | null): CalendarEvent | null {
+  const event = events.find(candidate => candidate.id === id);
+  if (!event) return null;
+  if (!event.recurrence || !date) return event;
+  return expandOccurrences(event, date, date).find(occurrence => occurrence.occurrenceStart === date) ?? null;
+}
+
 export default function Index() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isMobile = useIsMobile();
+  const { events, isLoading } = useEvents();
+
+  // Month titles are unreadable on small screens: a bare /:year opens the agenda there
+  const isBareYear = params.id === undefined && params.month === undefined;
+  useEffect(() => {
+    const year = parseYearParam(params.year);
+    if (isMobile && isBareYear && year !== null) {
+      navigate(agendaPath(year), { replace: true });
+    }
+  }, [isMobile, isBareYear, params.year, navigate]);
+
+  // Event link: show the modal over the year it was opened from, or the event's own year
+  if (params.id !== undefined) {
+    if (isLoading) return null;
+
+    const linkedEvent = findLinkedEvent(events, params.id, searchParams.get('date'));
+    const linkState = location.state as EventLinkState | null;
+    if (!linkedEvent) {
+      // Just deleted from the modal: keep the calendar up while navigating back
+      if (linkState) return <YearCalendar key={linkState.year} year={linkState.year} initialMonth={null} selectedEvent={null} />;
+      return <NotFound />;
+    }
+
+    const eventStart = parseDateString(linkedEvent.start);
+    const year = linkState?.year ?? eventStart.getFullYear();
+    const initialMonth = year === eventStart.getFullYear() ? eventStart.getMonth() : null;
+
+    return <YearCalendar key={year} year={year} initialMonth={initialMonth} selectedEvent={linkedEvent} />;
+  }
+
+  const year = parseYearParam(params.year);
+  const month = params.month !== undefined ? parseMonthParam(params.month) : null;
+  if (year === null || (params.month !== undefined && month === null)) return <NotFound />;
+
+  return <YearCalendar key={year} year={year} initialMonth={month} selectedEvent={null} />;
+}
+
+interface YearCalendarProps {
+  year: number;
+  initialMonth: number | null; // month to open on; null for the current month
+  selectedEvent: CalendarEvent | null; // from an /event/:id link
+}
+
+function YearCalendar({ year, initialMonth, selectedEvent }: YearCalendarProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const config = getYearConfig(year);
+  const defaultEventColor = config.colors.palette[0]?.value ?? config.colors.accent;
   const [currentMonth, setCurrentMonth] = useState(0);
-  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+  const [draftEvent, setDraftEvent] = useState<CalendarEvent | null>(null);
   const [isManifestationOpen, setIsManifestationOpen] = useState(false);
+  const [logDate, setLogDate] = useState<Date | null>(null); // day whose training log is open
+  const { events } = useEvents();
+  const { importEvents } = useEventMutations();
+  const workouts = useWorkouts();
+  const { importWorkouts } = useWorkoutMutations();
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; rows: ImportPlanRow[] } | null>(null);
+
+  // URL sync waits for the initial scroll, so /2026/10 isn't rewritten to January first
+  const hasScrolledRef = useRef(false);
+  const initialMonthRef = useRef(initialMonth);
 
   /**
-   * AUTO-SCROLL TO CURRENT MONTH
+   * AUTO-SCROLL TO LINKED OR CURRENT MONTH
+   * Runs once per year; later URL changes come from scrolling itself.
    */
   useEffect(() => {
     const today = new Date();
     const currentYear = today.getFullYear();
     const month = today.getMonth();
     
-    const targetMonth = currentYear === YEAR ? month : 0;
+    const targetMonth = initialMonthRef.current ?? (currentYear === year ? month : 0);
     
     const timeoutId = setTimeout(() => {
       const element = document.getElementById(`month-${targetMonth}`);
@@ -42,10 +172,37 @@ export default function Index() {
         element.scrollIntoView({ behavior: 'instant' });
         setCurrentMonth(targetMonth);
       }
+      hasScrolledRef.current = true;
     }, 100);
 
     return () => clearTimeout(timeoutId);
-  }, []);
+  }, [year]);
+
+  /**
+   * KEEP URL IN SYNC WITH THE VISIBLE MONTH
+   * Replaces rather than pushes, so scrolling doesn't fill the history.
+   * Keeps the tag filter; paused while an event link is open.
+   */
+  useEffect(() => {
+    if (!hasScrolledRef.current || selectedEvent) return;
+    const path = monthPath(year, currentMonth);
+    if (location.pathname !== path) {
+      navigate(`${path}${location.search}`, { replace: true });
+    }
+  }, [year, currentMonth, selectedEvent, location.pathname, location.search, navigate]);
+
+  /**
+   * TAG FILTER
+   * Lives in the URL (?only=swim or ?hide=recovery) so filtered views can be shared.
+   */
+  const filter = useMemo(() => parseFilterParams(new URLSearchParams(location.search)), [location.search]);
+  const filterTags = useMemo(() => getFilterTags([...events.map(event => event.tags), filter?.tags]), [events, filter]);
+
+  const handleFilterChange = useCallback((next: EventFilter | null) => {
+    navigate(`${location.pathname}${filterSearch(next)}`, { replace: true });
+  }, [navigate, location.pathname]);
+
+  useYearAccent(config);
 
   /**
    * SCROLL DETECTION
@@ -67,15 +224,60 @@ export default function Index() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [currentMonth]);
 
+  /**
+   * KEYBOARD NAVIGATION
+   * w / d open the week or day view for the visible month: today if it
+   * is in that month, otherwise the 1st.
+   */
+  const today = new Date();
+  const focusDate = today.getFullYear() === year && today.getMonth() === currentMonth
+    ? today
+    : new Date(year, currentMonth, 1);
+
+  useKeyboardShortcuts({
+    w: () => navigate(weekPath(startOfWeek(focusDate, { weekStartsOn: config.weekStartsOn }))),
+    d: () => navigate(dayPath(focusDate)),
+  }, !selectedEvent && !draftEvent && !isManifestationOpen && !importPreview);
+
   /**
    * EVENT HANDLERS
    */
   const handleEventClick = useCallback((event: CalendarEvent) => {
-    setSelectedEvent(event);
-  }, []);
+    const state: EventLinkState = { year };
+    navigate(eventPath(event), { state });
+  }, [navigate, year]);
 
+  // Opened from the calendar: go back. Opened from a shared link: replace with the month.
   const handleCloseEventModal = useCallback(() => {
-    setSelectedEvent(null);
+    if (location.state) {
+      navigate(-1);
+    } else {
+      navigate(monthPath(year, currentMonth), { replace: true });
+    }
+  }, [navigate, location.state, year, currentMonth]);
+
+  const handleDayClick = useCallback((date: Date) => {
+    const dateStr = formatDateString(date);
+    setDraftEvent({
+      id: '',
+      title: '',
+      start: dateStr,
+      end: dateStr,
+      color: defaultEventColor,
+      details: '',
+    });
+  }, [defaultEventColor]);
+
+  const handleCloseDraftModal = useCallback(() => {
+    setDraftEvent(null);
+  }, []);
+
+  const handleLogClick = useCallback((date: Date) => {
+    setLogDate(date);
+  }, []);
+
+  const handleCloseLogModal = useCallback(() => {
+    setLogDate(null);
   }, []);
 
   const handleManifestationClick = useCallback(() => {
@@ -86,22 +288,147 @@ export default function Index() {
     setIsManifestationOpen(false);
   }, []);
 
+  const handleExportClick = useCallback(() => {
+    downloadCalendar(
+      serializeCalendar(getEventsForYear(year), `${year}: ${config.title}`),
+      `year-focus-${year}.ics`
+    );
+  }, [year, config.title]);
+
+  /**
+   * COMMAND PALETTE ACTIONS
+   * Offered while the calendar is shown, next to the palette's global ones.
+   */
+  const commandActions = useMemo<CommandAction[]>(() => [
+    { id: 'manifestation', label: 'Open manifestation', icon: Sparkles, keywords: ['mantras', 'vision'], run: handleManifestationClick },
+    { id: 'export', label: `Export ${year} (.ics)`, icon: Download, keywords: ['calendar', 'download'], run: handleExportClick },
+    { id: 'agenda', label: 'Open agenda', icon: List, keywords: ['list'], run: () => navigate(agendaPath(year)) },
+    { id: 'overview', label: 'Open year overview', icon: LayoutGrid, keywords: ['grid'], run: () => navigate(overviewPath(year)) },
+    { id: 'stats', label: 'Open training stats', icon: BarChart3, keywords: ['charts', 'volume', 'load'], run: () => navigate(statsPath(year)) },
+    { id: 'habits', label: 'Open habits', icon: Flame, keywords: ['streaks', 'check in', 'heatmap'], run: () => navigate(habitsPath(year)) },
+  ], [handleManifestationClick, handleExportClick, navigate, year]);
+
+  useCommandActions(commandActions);
+
+  /**
+   * ICS AND ACTIVITY DRAG AND DROP
+   */
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    // Only when the pointer leaves the page, not when crossing child elements
+    if (e.relatedTarget === null) setIsDraggingFile(false);
+  }, []);
+
+  const importActivities = useCallback(async (files: File[]) => {
+    const known = new Set(workouts.map(workout => workout.importId).filter(Boolean));
+    const toLog: ReturnType<typeof toWorkout>[] = [];
+    let skipped = 0;
+
+    for (const file of files) {
+      try {
+        const workout = toWorkout(await parseActivityFile(file));
+        if (known.has(workout.importId)) {
+          skipped++;
+          continue;
+        }
+        known.add(workout.importId);
+        toLog.push(workout);
+      } catch (error) {
+        toast.error(`Couldn't read ${file.name}`, { description: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const skippedNote = skipped > 0 ? `${skipped} already in your log` : undefined;
+    if (toLog.length === 0) {
+      if (skippedNote) toast.info(`Nothing new to import (${skippedNote})`);
+      return;
+    }
+    importWorkouts(toLog, {
+      onSuccess: () => toast.success(
+        `Logged ${toLog.length} activit${toLog.length === 1 ? 'y' : 'ies'}`,
+        { description: skippedNote && `Skipped ${skippedNote}` }
+      ),
+    });
+  }, [workouts, importWorkouts]);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+
+    const files = Array.from(e.dataTransfer.files);
+    const file = files.find(f =>
+      f.name.toLowerCase().endsWith('.ics') || f.type === 'text/calendar'
+    );
+    const activityFiles = files.filter(f => isActivityFile(f.name));
+    if (!file && activityFiles.length === 0) {
+      toast.error('Only .ics calendars and .gpx, .tcx or .fit activities can be imported');
+      return;
+    }
+
+    if (activityFiles.length > 0) await importActivities(activityFiles);
+    if (!file) return;
+
+    try {
+      const rows = planImport(parseCalendar(await file.text()), events);
+      setImportPreview({ fileName: file.name, rows });
+    } catch (error) {
+      toast.error(`Couldn't read ${file.name}`, { description: String(error) });
+    }
+  }, [events, importActivities]);
+
+  const handleConfirmImport = useCallback(() => {
+    if (!importPreview) return;
+    const toImport = importPreview.rows
+      .filter(row => row.action !== 'skip' && row.event)
+      .map(row => row.event!);
+    importEvents(toImport, {
+      onSuccess: () => toast.success(`Imported ${toImport.length} event${toImport.length === 1 ? '' : 's'}`),
+    });
+    setImportPreview(null);
+  }, [importPreview, importEvents]);
+
+  const handleCloseImportPreview = useCallback(() => {
+    setImportPreview(null);
+  }, []);
+
   return (
-    <div className="min-h-screen bg-background">
+    <div
+      className="min-h-screen bg-background"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Fixed Header with Title and Month Navigation */}
       <CalendarHeader 
+        year={year}
+        title={config.title}
         currentMonth={currentMonth} 
         onManifestationClick={handleManifestationClick}
+        onExportClick={handleExportClick}
+        filter={filter}
+        filterTags={filterTags}
+        onFilterChange={handleFilterChange}
       />
       
       {/* Calendar Months Container */}
-      <main className="pt-24 md:pt-28 snap-y snap-mandatory">
+      <main className="pt-32 md:pt-36 snap-y snap-mandatory">
         {MONTHS.map(month => (
           <CalendarMonth
             key={month}
-            year={YEAR}
+            year={year}
             month={month}
+            weekStartsOn={config.weekStartsOn}
+            mantra={getMantraForMonth(config, month)}
+            filter={filter}
             onEventClick={handleEventClick}
+            onDayClick={handleDayClick}
+            onLogClick={handleLogClick}
           />
         ))}
       </main>
@@ -109,23 +436,70 @@ export default function Index() {
       {/* Event Detail Modal */}
       {selectedEvent && (
         <EventModal
+          key={getOccurrenceKey(selectedEvent)}
           event={selectedEvent}
+          colorPresets={config.colors.palette}
+          weekStartsOn={config.weekStartsOn}
           isOpen={!!selectedEvent}
           onClose={handleCloseEventModal}
         />
       )}
 
+      {/* New Event Modal (opened from a day cell) */}
+      {draftEvent && (
+        <EventModal
+          key={`draft-${draftEvent.start}`}
+          event={draftEvent}
+          colorPresets={config.colors.palette}
+          weekStartsOn={config.weekStartsOn}
+          isOpen={!!draftEvent}
+          isNew
+          onClose={handleCloseDraftModal}
+        />
+      )}
+
+      {/* Training Log Modal (opened from a day cell) */}
+      {logDate && (
+        <WorkoutLogModal
+          key={formatDateString(logDate)}
+          date={logDate}
+          isOpen={!!logDate}
+          onClose={handleCloseLogModal}
+        />
+      )}
+
+      {/* ICS Import Preview */}
+      {importPreview && (
+        <ImportPreviewModal
+          fileName={importPreview.fileName}
+          rows={importPreview.rows}
+          onConfirm={handleConfirmImport}
+          onClose={handleCloseImportPreview}
+        />
+      )}
+
+      {/* Drop target overlay while dragging a file over the page */}
+      {isDraggingFile && (
+        <div className="fixed inset-0 z-50 pointer-events-none flex items-center justify-center bg-primary/10 backdrop-blur-[2px] border-2 border-dashed border-primary/60">
+          <p className="px-4 py-2 rounded-lg bg-card shadow-md text-sm font-medium text-foreground">
+            Drop an .ics file to import events, or .gpx, .tcx and .fit files to log activities
+          </p>
+        </div>
+      )}
+
       {/* Manifestation Modal */}
       <ManifestationModal
+        content={config.manifestation}
+        mantras={config.quarterlyMantras}
         isOpen={isManifestationOpen}
         onClose={handleCloseManifestationModal}
       />
 
       {/* Footer */}
       <footer className="py-8 text-center text-sm text-muted-foreground border-t border-border">
-        <p className="font-mono">2026 — The Year of the Hybrid Athlete</p>
+        <p className="font-mono">{year} — {config.title}</p>
         <p className="mt-1 text-xs">
-          A read-only life calendar reflecting yearly focus and defining challenges
+          {config.tagline}
         </p>
       </footer>
     </div>
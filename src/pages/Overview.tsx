@@ -0,0 +1,161 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ViewHeader } from "@/components/ViewHeader";
+import { getYearConfig } from "@/data/years";
+import { useEvents } from "@/hooks/use-events";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useYearAccent } from "@/hooks/use-year-accent";
+import { getEventBlocksForWeek, getMonthWeeks, getSingleDayEventsForDate, getWeekdayLabels, isBarBlock } from "@/lib/monthLayout";
+import { getEventsForDate } from "@/data/eventStore";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import { monthPath, overviewPath, parseYearParam } from "@/lib/routes";
+import NotFound from "./NotFound";
+
+/**
+ * YEAR OVERVIEW
+ * =============
+ *
+ * All twelve months on one screen, to see the shape of the year at a
+ * glance. Each day is a small cell tinted by its single-day events;
+ * multi-day phases run underneath as continuous bands, laid out with
+ * the same week logic as the full month view (lib/monthLayout.ts).
+ *
+ * Clicking a day opens the month grid scrolled to that month.
+ */
+
+const MONTHS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Band dimensions, in px
+const BAND_HEIGHT = 3;
+const BAND_GAP = 1;
+
+export default function Overview() {
+  const params = useParams();
+  const year = parseYearParam(params.year);
+
+  if (year === null) return <NotFound />;
+
+  return <YearOverview key={year} year={year} />;
+}
+
+function YearOverview({ year }: { year: number }) {
+  const config = getYearConfig(year);
+  const navigate = useNavigate();
+  // Re-render whenever events are created, edited or deleted
+  useEvents();
+
+  useYearAccent(config);
+  const eventColors = useEventColors();
+
+  const today = new Date();
+  const weekdayLabels = getWeekdayLabels(config.weekStartsOn);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ViewHeader
+        title={String(year)}
+        subtitle={config.title}
+        backTo={monthPath(year, today.getFullYear() === year ? today.getMonth() : 0)}
+        backLabel="Months"
+        prevTo={overviewPath(year - 1)}
+        prevLabel={`Go to ${year - 1}`}
+        nextTo={overviewPath(year + 1)}
+        nextLabel={`Go to ${year + 1}`}
+      />
+
+      <main className="max-w-6xl mx-auto px-4 py-6 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-x-6 gap-y-8">
+        {MONTHS.map(month => {
+          const weeks = getMonthWeeks(year, month, config.weekStartsOn);
+
+          return (
+            <section key={month}>
+              <h2 className="text-sm font-serif font-semibold text-foreground mb-1.5">
+                <Link to={monthPath(year, month)} className="hover:text-primary transition-colors">
+                  {MONTH_NAMES[month]}
+                </Link>
+              </h2>
+
+              {/* Weekday initials */}
+              <div className="grid grid-cols-7 gap-px mb-0.5">
+                {weekdayLabels.map(day => (
+                  <div key={day} className="text-center text-[8px] font-medium text-muted-foreground/60 uppercase">
+                    {day[0]}
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-px">
+                {weeks.map((week, weekIndex) => {
+                  const bands = getEventBlocksForWeek(week, year, month).filter(isBarBlock);
+                  const bandRows = bands.length > 0 ? Math.max(...bands.map(block => block.row)) + 1 : 0;
+
+                  return (
+                    <div key={weekIndex}>
+                      {/* Day cells */}
+                      <div className="grid grid-cols-7 gap-px">
+                        {week.map((day, dayIndex) => {
+                          if (day === null) {
+                            return <div key={`empty-${dayIndex}`} className="aspect-square" />;
+                          }
+
+                          const date = new Date(year, month, day);
+                          const dayEvents = getEventsForDate(date);
+                          const tint = getSingleDayEventsForDate(date)[0]?.color;
+                          const isToday = date.toDateString() === today.toDateString();
+
+                          return (
+                            <button
+                              key={`day-${day}`}
+                              onClick={() => navigate(monthPath(year, month))}
+                              title={[`${MONTH_NAMES[month]} ${day}`, ...dayEvents.map(event => event.title)].join('\n')}
+                              className={`aspect-square rounded-[2px] flex items-center justify-center text-[8px] leading-none transition-colors hover:ring-1 hover:ring-primary/60
+                                ${tint ? 'text-white font-semibold' : 'bg-card text-foreground/40'}
+                                ${isToday ? 'ring-1 ring-primary' : ''}`}
+                              style={tint ? { backgroundColor: eventColors(tint).bar } : undefined}
+                            >
+                              {day}
+                            </button>
+                          );
+                        })}
+                      </div>
+
+                      {/* Multi-day bands under the week */}
+                      {bandRows > 0 && (
+                        <div className="relative my-px" style={{ height: `${bandRows * (BAND_HEIGHT + BAND_GAP)}px` }}>
+                          {bands.map(block => (
+                            <div
+                              key={`${getOccurrenceKey(block.event)}-${block.startCol}`}
+                              title={block.event.title}
+                              className="absolute"
+                              style={{
+                                left: `calc(${(block.startCol / 7) * 100}% + ${block.isStart ? 1 : 0}px)`,
+                                width: `calc(${((block.endCol - block.startCol + 1) / 7) * 100}% - ${(block.isStart ? 1 : 0) + (block.isEnd ? 1 : 0)}px)`,
+                                top: `${block.row * (BAND_HEIGHT + BAND_GAP)}px`,
+                                height: `${BAND_HEIGHT}px`,
+                                backgroundColor: eventColors(block.event.color).bar,
+                                borderRadius: block.isStart && block.isEnd
+                                  ? '2px'
+                                  : block.isStart
+                                  ? '2px 0 0 2px'
+                                  : block.isEnd
+                                  ? '0 2px 2px 0'
+                                  : '0',
+                              }}
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
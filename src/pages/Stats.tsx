@@ -0,0 +1,273 @@
+import { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ViewHeader } from "@/components/ViewHeader";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { parseDateString } from "@/data/events";
+import { getYearConfig } from "@/data/years";
+import { WORKOUT_SPORTS, WorkoutSport, formatDuration, getSportColor, getWorkoutTotals, getWorkoutsInRange } from "@/data/workouts";
+import { useEvents } from "@/hooks/use-events";
+import { useWorkouts } from "@/hooks/use-workouts";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useYearAccent } from "@/hooks/use-year-accent";
+import { getEventColors } from "@/lib/colors";
+import {
+  DistanceScope,
+  PhaseBand,
+  VolumeBucket,
+  VolumeMetric,
+  getCumulativeDistance,
+  getPhaseBands,
+  getTrainingLoad,
+  getVolume,
+} from "@/lib/trainingStats";
+import { monthPath, parseYearParam, statsPath } from "@/lib/routes";
+import NotFound from "./NotFound";
+
+/**
+ * TRAINING STATS
+ * ==============
+ *
+ * Charts of a year's training log (see lib/trainingStats.ts):
+ *
+ * - volume per sport by week or month, in hours or km
+ * - cumulative distance against the events' km goals
+ * - training load with fitness (CTL), fatigue (ATL) and form (TSB)
+ *
+ * Every chart is shaded with the year's multi-day events, so volume
+ * can be read against "Base Building", "Ultra Prep" or "Recovery".
+ */
+
+/**
+ * HELPER: First day of each month, for ticks on the daily charts
+ */
+function getMonthTicks(year: number): string[] {
+  return Array.from({ length: 12 }, (_, month) => `${year}-${String(month + 1).padStart(2, '0')}-01`);
+}
+
+const SCOPE_LABELS: Record<DistanceScope, string> = {
+  all: 'All sports',
+  ...Object.fromEntries(WORKOUT_SPORTS.map(sport => [sport.id, sport.label])) as Record<WorkoutSport, string>,
+};
+
+/**
+ * HELPER: Chart color of a sport (or all sports), for light and dark themes
+ */
+function getScopeTheme(scope: DistanceScope): { light: string; dark: string } {
+  const color = scope === 'all' ? undefined : getSportColor(scope);
+  if (!color) return { light: 'hsl(var(--foreground) / 0.7)', dark: 'hsl(var(--foreground) / 0.7)' };
+  return { light: getEventColors(color, 'light').solid, dark: getEventColors(color, 'dark').solid };
+}
+
+const formatDay = (value: unknown) => format(parseDateString(String(value)), 'EEE MMM d');
+const formatMonthTick = (value: string) => format(parseDateString(value), 'MMM');
+
+export default function Stats() {
+  const params = useParams();
+  const year = parseYearParam(params.year);
+
+  if (year === null) return <NotFound />;
+
+  return <YearStats key={year} year={year} />;
+}
+
+function YearStats({ year }: { year: number }) {
+  const config = getYearConfig(year);
+  // Re-render whenever events (goals and phases) are created, edited or deleted
+  useEvents();
+  const workouts = useWorkouts();
+  const [bucket, setBucket] = useState<VolumeBucket>('week');
+  const [metric, setMetric] = useState<VolumeMetric>('hours');
+
+  useYearAccent(config);
+  const eventColors = useEventColors();
+
+  const today = new Date();
+  const yearWorkouts = useMemo(() => getWorkoutsInRange(workouts, `${year}-01-01`, `${year}-12-31`), [workouts, year]);
+  const totals = getWorkoutTotals(yearWorkouts);
+
+  const monthTicks = getMonthTicks(year);
+  const phases = getPhaseBands(year);
+  const distance = getCumulativeDistance(workouts, year);
+  const load = useMemo(() => getTrainingLoad(workouts, year), [workouts, year]);
+  const volume = useMemo(
+    () => getVolume(yearWorkouts, year, bucket, metric, config.weekStartsOn),
+    [yearWorkouts, year, bucket, metric, config.weekStartsOn]
+  );
+
+  const sports = WORKOUT_SPORTS.filter(sport => yearWorkouts.some(workout => workout.sport === sport.id));
+  const volumeConfig: ChartConfig = Object.fromEntries(
+    sports.map(sport => [sport.id, { label: sport.label, theme: getScopeTheme(sport.id) }])
+  );
+  const distanceConfig: ChartConfig = Object.fromEntries(
+    distance.scopes.flatMap(scope => [
+      [scope, { label: SCOPE_LABELS[scope], theme: getScopeTheme(scope) }],
+      [`${scope}Goal`, { label: `${SCOPE_LABELS[scope]} goal`, theme: getScopeTheme(scope) }],
+    ])
+  );
+  const loadConfig: ChartConfig = {
+    load: { label: 'Daily load', color: 'hsl(var(--muted-foreground) / 0.35)' },
+    ctl: { label: 'Fitness (CTL)', color: 'hsl(var(--primary))' },
+    atl: { label: 'Fatigue (ATL)', color: 'hsl(var(--destructive))' },
+    tsb: { label: 'Form (TSB)', color: 'hsl(var(--foreground) / 0.6)' },
+  };
+
+  /**
+   * HELPER: Shaded background bands for the phases, on any x axis.
+   * Recharts only sees direct children, so this returns elements, not a component.
+   */
+  const renderPhases = (toX: (phase: PhaseBand, edge: 'start' | 'end') => string | undefined, yAxisId?: string) =>
+    phases.map(phase => {
+      const x1 = toX(phase, 'start');
+      const x2 = toX(phase, 'end');
+      if (!x1 || !x2) return null;
+      return (
+        <ReferenceArea
+          key={phase.key}
+          x1={x1}
+          x2={x2}
+          yAxisId={yAxisId}
+          fill={eventColors(phase.color).solid}
+          fillOpacity={0.1}
+          ifOverflow="extendDomain"
+          label={{ value: phase.title, position: 'insideTopLeft', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+        />
+      );
+    });
+
+  const volumeX = (phase: PhaseBand, edge: 'start' | 'end') => {
+    const date = edge === 'start' ? phase.start : phase.end;
+    return (volume.find(row => date >= row.start && date <= row.end)
+      ?? (edge === 'start' ? volume[0] : volume[volume.length - 1]))?.label;
+  };
+  const dayX = (phase: PhaseBand, edge: 'start' | 'end') => (edge === 'start' ? phase.start : phase.end);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ViewHeader
+        title={`${year} training`}
+        subtitle={config.title}
+        backTo={monthPath(year, today.getFullYear() === year ? today.getMonth() : 0)}
+        backLabel="Months"
+        prevTo={statsPath(year - 1)}
+        prevLabel={`Go to ${year - 1}`}
+        nextTo={statsPath(year + 1)}
+        nextLabel={`Go to ${year + 1}`}
+      />
+
+      <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        {/* Year totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: 'Sessions', value: String(totals.count) },
+            { label: 'Time', value: formatDuration(totals.durationMinutes) },
+            { label: 'Distance', value: `${Math.round(totals.distanceKm)} km` },
+            { label: 'Elevation', value: `${Math.round(totals.elevationM)} m` },
+          ].map(tile => (
+            <div key={tile.label} className="rounded-xl border border-border bg-card px-4 py-3">
+              <p className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">{tile.label}</p>
+              <p className="mt-1 text-xl font-serif font-bold text-foreground">{tile.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {yearWorkouts.length === 0 && (
+          <p className="rounded-xl border border-dashed border-border px-4 py-8 text-center text-sm text-muted-foreground">
+            Nothing logged in {year} yet. Log sessions from a day in the month view,
+            or drop .gpx, .tcx and .fit files on the calendar.
+          </p>
+        )}
+
+        {/* Volume */}
+        <section className="rounded-xl border border-border bg-card p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h2 className="text-sm font-serif font-semibold text-foreground">Volume per sport</h2>
+            <div className="flex items-center gap-2">
+              <ToggleGroup type="single" size="sm" variant="outline" value={bucket} onValueChange={value => value && setBucket(value as VolumeBucket)}>
+                <ToggleGroupItem value="week" className="text-xs">Weekly</ToggleGroupItem>
+                <ToggleGroupItem value="month" className="text-xs">Monthly</ToggleGroupItem>
+              </ToggleGroup>
+              <ToggleGroup type="single" size="sm" variant="outline" value={metric} onValueChange={value => value && setMetric(value as VolumeMetric)}>
+                <ToggleGroupItem value="hours" className="text-xs">Hours</ToggleGroupItem>
+                <ToggleGroupItem value="km" className="text-xs">km</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          </div>
+          <ChartContainer config={volumeConfig} className="aspect-auto h-64 w-full">
+            <BarChart data={volume} margin={{ top: 16, right: 8, left: -16, bottom: 0 }}>
+              {renderPhases(volumeX)}
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={48} unit={metric === 'hours' ? 'h' : ''} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {sports.map(sport => (
+                <Bar key={sport.id} dataKey={sport.id} stackId="volume" fill={`var(--color-${sport.id})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </section>
+
+        {/* Cumulative distance */}
+        <section className="rounded-xl border border-border bg-card p-4">
+          <h2 className="text-sm font-serif font-semibold text-foreground mb-1">Cumulative distance</h2>
+          <p className="text-xs text-muted-foreground mb-3">
+            {distance.goalScopes.length > 0
+              ? 'Dashed lines add up the km goals of the year\'s events.'
+              : 'Add a km goal to an event (e.g. "40 km run per week") to see a goal line.'}
+          </p>
+          <ChartContainer config={distanceConfig} className="aspect-auto h-64 w-full">
+            <LineChart data={distance.rows} margin={{ top: 16, right: 8, left: -16, bottom: 0 }}>
+              {renderPhases(dayX)}
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" ticks={monthTicks} tickFormatter={formatMonthTick} tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={48} unit=" km" />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDay(payload[0]?.payload.date)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {distance.scopes.map(scope => (
+                <Line key={scope} dataKey={scope} stroke={`var(--color-${scope})`} strokeWidth={2} dot={false} type="monotone" />
+              ))}
+              {distance.goalScopes.map(scope => (
+                <Line
+                  key={`${scope}Goal`}
+                  dataKey={`${scope}Goal`}
+                  stroke={`var(--color-${scope}Goal)`}
+                  strokeWidth={1.5}
+                  strokeDasharray="4 4"
+                  dot={false}
+                  type="monotone"
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </section>
+
+        {/* Training load */}
+        <section className="rounded-xl border border-border bg-card p-4">
+          <h2 className="text-sm font-serif font-semibold text-foreground mb-1">Training load</h2>
+          <p className="text-xs text-muted-foreground mb-3">
+            Load is minutes × RPE. Fitness and fatigue are its 42- and 7-day trends; form is their difference.
+          </p>
+          <ChartContainer config={loadConfig} className="aspect-auto h-72 w-full">
+            <ComposedChart data={load} margin={{ top: 16, right: 8, left: -16, bottom: 0 }}>
+              {renderPhases(dayX, 'trend')}
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" ticks={monthTicks} tickFormatter={formatMonthTick} tickLine={false} axisLine={false} />
+              <YAxis yAxisId="load" orientation="right" tickLine={false} axisLine={false} width={40} />
+              <YAxis yAxisId="trend" tickLine={false} axisLine={false} width={48} />
+              <ReferenceLine yAxisId="trend" y={0} stroke="hsl(var(--border))" />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDay(payload[0]?.payload.date)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar yAxisId="load" dataKey="load" fill="var(--color-load)" />
+              <Line yAxisId="trend" dataKey="ctl" stroke="var(--color-ctl)" strokeWidth={2} dot={false} type="monotone" />
+              <Line yAxisId="trend" dataKey="atl" stroke="var(--color-atl)" strokeWidth={1.5} dot={false} type="monotone" />
+              <Line yAxisId="trend" dataKey="tsb" stroke="var(--color-tsb)" strokeWidth={1.5} strokeDasharray="3 3" dot={false} type="monotone" />
+            </ComposedChart>
+          </ChartContainer>
+        </section>
+      </main>
+    </div>
+  );
+}
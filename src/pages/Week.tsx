@@ -0,0 +1,202 @@
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { addDays, differenceInCalendarDays, format, isSameDay, startOfWeek } from "date-fns";
+import { Repeat } from "lucide-react";
+import { ViewHeader } from "@/components/ViewHeader";
+import { CalendarEvent, formatDateString, isMultiDayEvent, parseDateString } from "@/data/events";
+import { getEventsInRange } from "@/data/eventStore";
+import { getYearConfig } from "@/data/years";
+import { useEvents } from "@/hooks/use-events";
+import { useEventColors } from "@/hooks/use-event-colors";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+import { useYearAccent } from "@/hooks/use-year-accent";
+import { getDetailsPreview, getPhaseDay } from "@/lib/agenda";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import { EventLinkState, dayPath, eventPath, monthPath, parseDateParam, weekPath } from "@/lib/routes";
+import { formatEventTime } from "@/lib/time";
+import NotFound from "./NotFound";
+
+/**
+ * WEEK VIEW
+ * =========
+ *
+ * One week with full event titles: multi-day phases as bands across the
+ * days they cover, and each day's single-day events with a preview of
+ * their details.
+ *
+ * KEYBOARD:
+ * ← / →      previous / next week
+ * 1–7        open that day
+ * t          this week
+ * Esc / ↑    back to the month
+ */
+
+export default function Week() {
+  const params = useParams();
+  const date = parseDateParam(params.date);
+
+  if (!date) return <NotFound />;
+
+  // Any date in the week works; normalize the URL to the week's first day
+  const config = getYearConfig(date.getFullYear());
+  const weekStart = startOfWeek(date, { weekStartsOn: config.weekStartsOn });
+  if (!isSameDay(weekStart, date)) return <Navigate to={weekPath(weekStart)} replace />;
+
+  return <WeekView key={formatDateString(weekStart)} weekStart={weekStart} />;
+}
+
+function WeekView({ weekStart }: { weekStart: Date }) {
+  const config = getYearConfig(weekStart.getFullYear());
+  const navigate = useNavigate();
+  // Re-render whenever events are created, edited or deleted
+  useEvents();
+
+  useYearAccent(config);
+  const eventColors = useEventColors();
+
+  const today = new Date();
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const weekEnd = days[6];
+  const startStr = formatDateString(weekStart);
+  const endStr = formatDateString(weekEnd);
+
+  const events = getEventsInRange(startStr, endStr);
+  const phases = events.filter(isMultiDayEvent);
+  const singles = events.filter(event => !isMultiDayEvent(event));
+
+  // The month to go back to: today's if it is in this week, else the week's first day
+  const focus = days.find(day => isSameDay(day, today)) ?? weekStart;
+
+  const handleEventClick = (event: CalendarEvent) => {
+    const state: EventLinkState = { year: parseDateString(event.start).getFullYear() };
+    navigate(eventPath(event), { state });
+  };
+
+  useKeyboardShortcuts({
+    ArrowLeft: () => navigate(weekPath(addDays(weekStart, -7))),
+    ArrowRight: () => navigate(weekPath(addDays(weekStart, 7))),
+    ArrowUp: () => navigate(monthPath(focus.getFullYear(), focus.getMonth())),
+    Escape: () => navigate(monthPath(focus.getFullYear(), focus.getMonth())),
+    t: () => navigate(weekPath(startOfWeek(today, { weekStartsOn: config.weekStartsOn }))),
+    ...Object.fromEntries(days.map((day, i) => [String(i + 1), () => navigate(dayPath(day))])),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ViewHeader
+        title={`Week of ${format(weekStart, 'MMM d')}`}
+        subtitle={`${format(weekStart, 'MMM d')} – ${format(weekEnd, 'MMM d, yyyy')}`}
+        backTo={monthPath(focus.getFullYear(), focus.getMonth())}
+        backLabel="Month"
+        prevTo={weekPath(addDays(weekStart, -7))}
+        prevLabel="Previous week"
+        nextTo={weekPath(addDays(weekStart, 7))}
+        nextLabel="Next week"
+      />
+
+      <main className="max-w-6xl mx-auto px-4 py-6">
+        {/* Phase bands, aligned with the day columns below */}
+        {phases.length > 0 && (
+          <section className="hidden md:grid grid-cols-7 grid-flow-row-dense gap-1 mb-3" aria-label="Phases this week">
+            {phases.map(event => {
+              const startCol = Math.max(0, differenceInCalendarDays(parseDateString(event.start), weekStart));
+              const endCol = Math.min(6, differenceInCalendarDays(parseDateString(event.end), weekStart));
+
+              return (
+                <button
+                  key={getOccurrenceKey(event)}
+                  onClick={() => handleEventClick(event)}
+                  className="px-2 py-1 rounded text-left text-xs font-medium text-white hover:brightness-110 transition-all truncate"
+                  style={{
+                    gridColumn: `${startCol + 1} / ${endCol + 2}`,
+                    backgroundColor: eventColors(event.color).bar,
+                    textShadow: '0 1px 1px rgba(0,0,0,0.2)',
+                  }}
+                  title={event.title}
+                >
+                  {event.title}
+                  <span className="ml-2 font-normal opacity-80">
+                    {format(parseDateString(event.start), 'MMM d')} – {format(parseDateString(event.end), 'MMM d')}
+                  </span>
+                </button>
+              );
+            })}
+          </section>
+        )}
+
+        {/* Day columns */}
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+          {days.map((day, i) => {
+            const dayStr = formatDateString(day);
+            const dayEvents = singles.filter(event => event.start === dayStr);
+            const activePhases = phases.filter(event => event.start <= dayStr && event.end >= dayStr);
+            const isToday = isSameDay(day, today);
+
+            return (
+              <section
+                key={dayStr}
+                className={`rounded-md bg-card border p-2 min-h-[8rem] ${isToday ? 'border-primary/70' : 'border-border/40'}`}
+              >
+                <Link
+                  to={dayPath(day)}
+                  className="flex items-baseline gap-1.5 mb-2 rounded hover:text-primary transition-colors"
+                  title={`Open ${format(day, 'EEEE, MMM d')} (${i + 1})`}
+                >
+                  <span className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+                    {format(day, 'EEE')}
+                  </span>
+                  <span className={`text-sm font-semibold ${isToday ? 'text-primary' : 'text-foreground'}`}>
+                    {format(day, 'd')}
+                  </span>
+                </Link>
+
+                {/* Active phases, listed per day where the bands aren't shown */}
+                {activePhases.length > 0 && (
+                  <ul className="md:hidden mb-2 space-y-0.5">
+                    {activePhases.map(event => {
+                      const { day: phaseDay, total } = getPhaseDay(event, day);
+                      return (
+                        <li key={getOccurrenceKey(event)} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                          <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: eventColors(event.color).solid }} />
+                          <span className="truncate">{event.title}</span>
+                          <span className="ml-auto font-mono text-[10px] flex-shrink-0">{phaseDay}/{total}</span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+
+                <ul className="space-y-1.5">
+                  {dayEvents.map(event => {
+                    const preview = getDetailsPreview(event.details);
+                    return (
+                      <li key={getOccurrenceKey(event)}>
+                        <button
+                          onClick={() => handleEventClick(event)}
+                          className="w-full text-left rounded px-1.5 py-1 border-l-2 hover:bg-muted/20 transition-colors"
+                          style={{ borderColor: eventColors(event.color).solid, backgroundColor: eventColors(event.color).wash }}
+                        >
+                          {event.startTime && (
+                            <span className="block text-[10px] font-mono text-muted-foreground">{formatEventTime(event)}</span>
+                          )}
+                          <span className="flex items-start gap-1 text-xs font-medium text-foreground">
+                            <span className="break-words">{event.title}</span>
+                            {event.recurrence && <Repeat className="w-3 h-3 mt-0.5 flex-shrink-0 text-muted-foreground" aria-label="Repeats" />}
+                          </span>
+                          {preview && (
+                            <span className="block mt-0.5 text-[11px] leading-snug text-muted-foreground line-clamp-3">
+                              {preview}
+                            </span>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,39 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { EVENT_CONTENT_DIR, EventFileError, parseEventFiles } from "./src/data/eventFile";
+
+/**
+ * Validate the Markdown event files before building, so a bad field
+ * fails `vite build` with the file and field named instead of
+ * shipping a calendar that throws on load.
+ */
+function validateEventContent(): Plugin {
+  return {
+    name: "validate-event-content",
+    apply: "build",
+    buildStart() {
+      const dir = path.resolve(__dirname, EVENT_CONTENT_DIR);
+      if (!fs.existsSync(dir)) return;
+
+      const files = Object.fromEntries(
+        fs
+          .readdirSync(dir)
+          .filter((name) => name.endsWith(".md"))
+          .map((name) => [`${EVENT_CONTENT_DIR}/${name}`, fs.readFileSync(path.join(dir, name), "utf-8")]),
+      );
+
+      try {
+        parseEventFiles(files);
+      } catch (error) {
+        if (error instanceof EventFileError) this.error(error.message);
+        throw error;
+      }
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +41,7 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), validateEventContent(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),